@@ -0,0 +1,494 @@
+/**
+ * CLOB Client - Interface with Polymarket's Central Limit Order Book API
+ */
+
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import type { OrderBook } from '@quantish/types';
+import type { SignedClobOrder } from './order-builder';
+
+export interface ClobClientConfig {
+  /** CLOB endpoint URL */
+  endpoint: string;
+  /** Chain ID used for L1 auth signatures (default: 137) */
+  chainId?: number;
+  /** Request timeout in ms */
+  timeout?: number;
+}
+
+export interface ClobApiCredentials {
+  /** CLOB API key */
+  key: string;
+  /** Base64 encoded CLOB API secret */
+  secret: string;
+  /** CLOB API passphrase */
+  passphrase: string;
+}
+
+export interface ClobResponse<T = unknown> {
+  success: boolean;
+  status?: number;
+  data?: T;
+  error?: string;
+}
+
+export type ClobOrderType = 'GTC' | 'GTD' | 'FOK' | 'FAK';
+
+export interface ClobOrderResponse {
+  success: boolean;
+  errorMsg?: string;
+  orderID?: string;
+  /** live, matched, delayed or unmatched */
+  status?: string;
+  transactionsHashes?: string[];
+  makingAmount?: string;
+  takingAmount?: string;
+}
+
+export interface ClobOrderBook extends OrderBook {
+  /** Minimum price increment, e.g. "0.01" */
+  tick_size?: string;
+  min_order_size?: string;
+  neg_risk?: boolean;
+}
+
+export interface ClobCancelResponse {
+  canceled: string[];
+  /** Order id -> reason */
+  not_canceled: Record<string, string>;
+}
+
+/** An order as reported by the CLOB */
+export interface ClobOpenOrder {
+  id: string;
+  /** e.g. LIVE, MATCHED, CANCELED */
+  status: string;
+  maker_address: string;
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  original_size: string;
+  size_matched: string;
+  price: string;
+  order_type?: string;
+  expiration?: string;
+  created_at?: number;
+}
+
+export interface ClobMakerOrder {
+  order_id: string;
+  maker_address?: string;
+  matched_amount: string;
+  price: string;
+  fee_rate_bps?: string;
+}
+
+export interface ClobTrade {
+  id: string;
+  taker_order_id: string;
+  market: string;
+  asset_id: string;
+  side: 'BUY' | 'SELL';
+  size: string;
+  price: string;
+  fee_rate_bps?: string;
+  /** MATCHED, MINED, CONFIRMED, RETRYING or FAILED */
+  status: string;
+  /** Unix seconds */
+  match_time: string;
+  maker_orders: ClobMakerOrder[];
+}
+
+/** next_cursor value the CLOB returns on the last page */
+const END_CURSOR = 'LTE=';
+/** Stop following cursors after this many pages */
+const MAX_PAGES = 50;
+
+/** Orders the CLOB accepts in one POST /orders request */
+export const CLOB_MAX_BATCH_ORDERS = 15;
+
+const CLOB_AUTH_DOMAIN_NAME = 'ClobAuthDomain';
+const CLOB_AUTH_MESSAGE = 'This message attests that I control the given wallet';
+
+const CLOB_AUTH_TYPES = {
+  ClobAuth: [
+    { name: 'address', type: 'address' },
+    { name: 'timestamp', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'message', type: 'string' },
+  ],
+};
+
+export class ClobClient {
+  private readonly endpoint: string;
+  readonly chainId: number;
+  private readonly timeout: number;
+
+  constructor(config: ClobClientConfig) {
+    this.endpoint = config.endpoint.replace(/\/$/, '');
+    this.chainId = config.chainId || 137;
+    this.timeout = config.timeout || 30000;
+  }
+
+  /**
+   * Create L1 (wallet signature) auth headers
+   */
+  async createL1Headers(signer: ethers.Wallet, nonce: number = 0): Promise<Record<string, string>> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    const signature = await signer._signTypedData(
+      { name: CLOB_AUTH_DOMAIN_NAME, version: '1', chainId: this.chainId },
+      CLOB_AUTH_TYPES,
+      {
+        address: signer.address,
+        timestamp,
+        nonce,
+        message: CLOB_AUTH_MESSAGE,
+      }
+    );
+
+    return {
+      POLY_ADDRESS: signer.address,
+      POLY_SIGNATURE: signature,
+      POLY_TIMESTAMP: timestamp,
+      POLY_NONCE: nonce.toString(),
+    };
+  }
+
+  /**
+   * Create L2 (API key HMAC) auth headers
+   */
+  createL2Headers(
+    address: string,
+    credentials: ClobApiCredentials,
+    method: string,
+    path: string,
+    body?: unknown
+  ): Record<string, string> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const bodyString = body !== undefined ? JSON.stringify(body) : '';
+    const message = `${timestamp}${method}${path}${bodyString}`;
+
+    const signature = crypto
+      .createHmac('sha256', Buffer.from(credentials.secret, 'base64'))
+      .update(message)
+      .digest('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_');
+
+    return {
+      POLY_ADDRESS: address,
+      POLY_SIGNATURE: signature,
+      POLY_TIMESTAMP: timestamp,
+      POLY_API_KEY: credentials.key,
+      POLY_PASSPHRASE: credentials.passphrase,
+    };
+  }
+
+  /**
+   * Create a new CLOB API key for the signer
+   */
+  async createApiKey(signer: ethers.Wallet, nonce: number = 0): Promise<ClobResponse<ClobApiCredentials>> {
+    const headers = await this.createL1Headers(signer, nonce);
+    const response = await this.request<{ apiKey: string; secret: string; passphrase: string }>(
+      'POST',
+      '/auth/api-key',
+      headers
+    );
+    return this.toCredentials(response);
+  }
+
+  /**
+   * Derive the existing CLOB API key for the signer
+   */
+  async deriveApiKey(signer: ethers.Wallet, nonce: number = 0): Promise<ClobResponse<ClobApiCredentials>> {
+    const headers = await this.createL1Headers(signer, nonce);
+    const response = await this.request<{ apiKey: string; secret: string; passphrase: string }>(
+      'GET',
+      '/auth/derive-api-key',
+      headers
+    );
+    return this.toCredentials(response);
+  }
+
+  /**
+   * Create a CLOB API key, falling back to deriving it if one already exists
+   */
+  async createOrDeriveApiKey(signer: ethers.Wallet, nonce: number = 0): Promise<ClobResponse<ClobApiCredentials>> {
+    const created = await this.createApiKey(signer, nonce);
+    if (created.success) {
+      return created;
+    }
+    return this.deriveApiKey(signer, nonce);
+  }
+
+  /**
+   * Get the order book for a token, with the spread computed from the top of book
+   */
+  async getOrderBook(tokenId: string): Promise<ClobResponse<ClobOrderBook>> {
+    const response = await this.request<Omit<ClobOrderBook, 'spread'>>(
+      'GET',
+      `/book?token_id=${encodeURIComponent(tokenId)}`
+    );
+    if (!response.success || !response.data) {
+      return { success: false, status: response.status, error: response.error || 'CLOB returned no order book' };
+    }
+
+    const book = response.data;
+    const bestBid = Math.max(...(book.bids || []).map((entry) => Number(entry.price)));
+    const bestAsk = Math.min(...(book.asks || []).map((entry) => Number(entry.price)));
+
+    return {
+      success: true,
+      status: response.status,
+      data: {
+        ...book,
+        bids: book.bids || [],
+        asks: book.asks || [],
+        spread: Number.isFinite(bestBid) && Number.isFinite(bestAsk) ? bestAsk - bestBid : 0,
+      },
+    };
+  }
+
+  /**
+   * Submit a signed order
+   */
+  async postOrder(
+    credentials: ClobApiCredentials,
+    order: SignedClobOrder,
+    orderType: ClobOrderType
+  ): Promise<ClobResponse<ClobOrderResponse>> {
+    const body = { order, owner: credentials.key, orderType };
+    const headers = this.createL2Headers(order.signer, credentials, 'POST', '/order', body);
+    const response = await this.request<ClobOrderResponse>('POST', '/order', headers, body);
+
+    if (response.success && response.data && !response.data.success) {
+      return {
+        success: false,
+        status: response.status,
+        data: response.data,
+        error: response.data.errorMsg || 'CLOB rejected the order',
+      };
+    }
+    return response;
+  }
+
+  /**
+   * Submit up to CLOB_MAX_BATCH_ORDERS signed orders in one request
+   *
+   * The CLOB answers with one result per order, in request order. All orders
+   * must share the same signer.
+   */
+  async postOrders(
+    credentials: ClobApiCredentials,
+    orders: Array<{ order: SignedClobOrder; orderType: ClobOrderType }>
+  ): Promise<ClobResponse<ClobOrderResponse[]>> {
+    if (orders.length === 0) {
+      return { success: true, status: 200, data: [] };
+    }
+    if (orders.length > CLOB_MAX_BATCH_ORDERS) {
+      return { success: false, error: `At most ${CLOB_MAX_BATCH_ORDERS} orders per batch` };
+    }
+
+    const body = orders.map(({ order, orderType }) => ({ order, owner: credentials.key, orderType }));
+    const headers = this.createL2Headers(orders[0].order.signer, credentials, 'POST', '/orders', body);
+    const response = await this.request<ClobOrderResponse[]>('POST', '/orders', headers, body);
+
+    if (response.success && (!Array.isArray(response.data) || response.data.length !== orders.length)) {
+      return { success: false, status: response.status, error: 'CLOB returned an unexpected batch response' };
+    }
+    return response;
+  }
+
+  /**
+   * Cancel orders by CLOB order id
+   *
+   * The CLOB reports which ids it cancelled and why the others were not.
+   */
+  async cancelOrders(
+    address: string,
+    credentials: ClobApiCredentials,
+    orderIds: string[]
+  ): Promise<ClobResponse<ClobCancelResponse>> {
+    const headers = this.createL2Headers(address, credentials, 'DELETE', '/orders', orderIds);
+    const response = await this.request<Partial<ClobCancelResponse>>('DELETE', '/orders', headers, orderIds);
+    if (!response.success) {
+      return { success: false, status: response.status, error: response.error };
+    }
+
+    return {
+      success: true,
+      status: response.status,
+      data: {
+        canceled: response.data?.canceled || [],
+        not_canceled: response.data?.not_canceled || {},
+      },
+    };
+  }
+
+  /**
+   * List the caller's open orders, following pagination
+   */
+  getOpenOrders(
+    address: string,
+    credentials: ClobApiCredentials,
+    params: { market?: string; asset_id?: string } = {}
+  ): Promise<ClobResponse<ClobOpenOrder[]>> {
+    return this.getPaginated<ClobOpenOrder>(address, credentials, '/data/orders', params);
+  }
+
+  /**
+   * Get a single order by CLOB order id
+   */
+  async getOrder(
+    address: string,
+    credentials: ClobApiCredentials,
+    orderId: string
+  ): Promise<ClobResponse<ClobOpenOrder | null>> {
+    const path = `/data/order/${encodeURIComponent(orderId)}`;
+    const headers = this.createL2Headers(address, credentials, 'GET', path);
+    const response = await this.request<ClobOpenOrder | null>('GET', path, headers);
+    if (response.status === 404) {
+      return { success: true, status: 404, data: null };
+    }
+    return response;
+  }
+
+  /**
+   * List trades for a maker address, following pagination
+   */
+  getTrades(
+    address: string,
+    credentials: ClobApiCredentials,
+    params: { maker_address?: string; market?: string; after?: number } = {}
+  ): Promise<ClobResponse<ClobTrade[]>> {
+    return this.getPaginated<ClobTrade>(address, credentials, '/data/trades', params);
+  }
+
+  /**
+   * GET an L2-authenticated list endpoint and collect every page
+   *
+   * The HMAC covers the path only, not the query string.
+   */
+  private async getPaginated<T>(
+    address: string,
+    credentials: ClobApiCredentials,
+    path: string,
+    params: Record<string, string | number | undefined>
+  ): Promise<ClobResponse<T[]>> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const query = new URLSearchParams();
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) {
+          query.set(key, String(value));
+        }
+      }
+      if (cursor) {
+        query.set('next_cursor', cursor);
+      }
+
+      const headers = this.createL2Headers(address, credentials, 'GET', path);
+      const search = query.toString();
+      const response = await this.request<{ data?: T[]; next_cursor?: string }>(
+        'GET',
+        search ? `${path}?${search}` : path,
+        headers
+      );
+      if (!response.success) {
+        return { success: false, status: response.status, error: response.error };
+      }
+
+      items.push(...(response.data?.data || []));
+      cursor = response.data?.next_cursor;
+      if (!cursor || cursor === END_CURSOR) {
+        return { success: true, status: response.status, data: items };
+      }
+    }
+
+    return { success: false, error: `CLOB pagination exceeded ${MAX_PAGES} pages for ${path}` };
+  }
+
+  /**
+   * Send a request to the CLOB
+   */
+  async request<T>(
+    method: 'GET' | 'POST' | 'DELETE',
+    path: string,
+    headers: Record<string, string> = {},
+    body?: unknown
+  ): Promise<ClobResponse<T>> {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      const response = await fetch(`${this.endpoint}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const error = await response.text();
+        return {
+          success: false,
+          status: response.status,
+          error: `CLOB error: ${response.status} - ${error}`,
+        };
+      }
+
+      const data = await response.json() as T;
+
+      return { success: true, status: response.status, data };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown CLOB error',
+      };
+    }
+  }
+
+  private toCredentials(
+    response: ClobResponse<{ apiKey: string; secret: string; passphrase: string }>
+  ): ClobResponse<ClobApiCredentials> {
+    if (!response.success || !response.data?.apiKey) {
+      return {
+        success: false,
+        status: response.status,
+        error: response.error || 'CLOB did not return API credentials',
+      };
+    }
+
+    return {
+      success: true,
+      status: response.status,
+      data: {
+        key: response.data.apiKey,
+        secret: response.data.secret,
+        passphrase: response.data.passphrase,
+      },
+    };
+  }
+}
+
+/**
+ * Default Polymarket CLOB endpoint
+ */
+export const POLYMARKET_CLOB = 'https://clob.polymarket.com';
+
+/**
+ * Create a CLOB client with default Polymarket config
+ */
+export function createPolymarketClob(): ClobClient {
+  return new ClobClient({
+    endpoint: POLYMARKET_CLOB,
+  });
+}
@@ -0,0 +1,33 @@
+/**
+ * @quantish/core/clob
+ * Client for Polymarket's CLOB API
+ */
+
+export {
+  ClobClient,
+  createPolymarketClob,
+  POLYMARKET_CLOB,
+  CLOB_MAX_BATCH_ORDERS,
+  type ClobClientConfig,
+  type ClobApiCredentials,
+  type ClobResponse,
+  type ClobOrderType,
+  type ClobOrderResponse,
+  type ClobOrderBook,
+  type ClobCancelResponse,
+  type ClobOpenOrder,
+  type ClobMakerOrder,
+  type ClobTrade,
+} from './client';
+
+export {
+  buildOrder,
+  signOrder,
+  calculateOrderAmounts,
+  getExchangeAddress,
+  OrderSignatureType,
+  type ClobOrderSide,
+  type OrderParams,
+  type UnsignedClobOrder,
+  type SignedClobOrder,
+} from './order-builder';
@@ -0,0 +1,162 @@
+/**
+ * Order Builder - Build and EIP-712 sign Polymarket CTF Exchange orders
+ *
+ * Both USDC and outcome shares use 6 decimals on chain. A BUY gives USDC
+ * (makerAmount) for shares (takerAmount); a SELL is the reverse.
+ */
+
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import { POLYGON_CONTRACTS } from '../wallet/safe-deployer';
+
+/**
+ * How the exchange verifies the order signature
+ */
+export enum OrderSignatureType {
+  EOA = 0,
+  POLY_PROXY = 1,
+  POLY_GNOSIS_SAFE = 2,
+}
+
+export type ClobOrderSide = 'BUY' | 'SELL';
+
+export interface OrderParams {
+  /** Address that holds the funds (the Safe) */
+  maker: string;
+  /** Address that signs the order (the Safe owner EOA) */
+  signer: string;
+  tokenId: string;
+  side: ClobOrderSide;
+  /** Price per share in USDC, between 0 and 1 */
+  price: number;
+  /** Number of shares */
+  size: number;
+  /** Unix seconds, 0 for no expiration (default: 0) */
+  expiration?: number;
+  /** Exchange nonce, used for onchain cancellation (default: 0) */
+  nonce?: number;
+  /** Fee rate in basis points (default: 0) */
+  feeRateBps?: number;
+  /** Counterparty, zero address for public orders */
+  taker?: string;
+  /** Default: POLY_GNOSIS_SAFE */
+  signatureType?: OrderSignatureType;
+}
+
+export interface UnsignedClobOrder {
+  salt: number;
+  maker: string;
+  signer: string;
+  taker: string;
+  tokenId: string;
+  makerAmount: string;
+  takerAmount: string;
+  expiration: string;
+  nonce: string;
+  feeRateBps: string;
+  side: ClobOrderSide;
+  signatureType: OrderSignatureType;
+}
+
+export interface SignedClobOrder extends UnsignedClobOrder {
+  signature: string;
+}
+
+const EXCHANGE_DOMAIN_NAME = 'Polymarket CTF Exchange';
+const EXCHANGE_DOMAIN_VERSION = '1';
+
+const ORDER_TYPES = {
+  Order: [
+    { name: 'salt', type: 'uint256' },
+    { name: 'maker', type: 'address' },
+    { name: 'signer', type: 'address' },
+    { name: 'taker', type: 'address' },
+    { name: 'tokenId', type: 'uint256' },
+    { name: 'makerAmount', type: 'uint256' },
+    { name: 'takerAmount', type: 'uint256' },
+    { name: 'expiration', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'feeRateBps', type: 'uint256' },
+    { name: 'side', type: 'uint8' },
+    { name: 'signatureType', type: 'uint8' },
+  ],
+};
+
+const SIDE_VALUES: Record<ClobOrderSide, number> = { BUY: 0, SELL: 1 };
+
+const AMOUNT_DECIMALS = 6;
+const UNIT = 10 ** AMOUNT_DECIMALS;
+
+/**
+ * Exchange contract that verifies orders for a market
+ */
+export function getExchangeAddress(
+  negRisk: boolean,
+  contracts: { ctfExchange: string; negRiskCtfExchange: string } = POLYGON_CONTRACTS
+): string {
+  return negRisk ? contracts.negRiskCtfExchange : contracts.ctfExchange;
+}
+
+/**
+ * Compute maker/taker amounts (6-decimal units) for a price and size
+ */
+export function calculateOrderAmounts(
+  side: ClobOrderSide,
+  price: number,
+  size: number
+): { makerAmount: string; takerAmount: string } {
+  const shares = ethers.BigNumber.from(Math.round(size * UNIT));
+  const usdc = shares.mul(Math.round(price * UNIT)).div(UNIT);
+
+  return side === 'BUY'
+    ? { makerAmount: usdc.toString(), takerAmount: shares.toString() }
+    : { makerAmount: shares.toString(), takerAmount: usdc.toString() };
+}
+
+/**
+ * Build an unsigned order
+ */
+export function buildOrder(params: OrderParams): UnsignedClobOrder {
+  if (!(params.price > 0 && params.price < 1)) {
+    throw new Error(`price must be between 0 and 1, got ${params.price}`);
+  }
+  if (!(params.size > 0)) {
+    throw new Error(`size must be positive, got ${params.size}`);
+  }
+
+  return {
+    salt: parseInt(crypto.randomBytes(6).toString('hex'), 16),
+    maker: ethers.utils.getAddress(params.maker),
+    signer: ethers.utils.getAddress(params.signer),
+    taker: params.taker ? ethers.utils.getAddress(params.taker) : ethers.constants.AddressZero,
+    tokenId: params.tokenId,
+    ...calculateOrderAmounts(params.side, params.price, params.size),
+    expiration: String(params.expiration ?? 0),
+    nonce: String(params.nonce ?? 0),
+    feeRateBps: String(params.feeRateBps ?? 0),
+    side: params.side,
+    signatureType: params.signatureType ?? OrderSignatureType.POLY_GNOSIS_SAFE,
+  };
+}
+
+/**
+ * EIP-712 sign an order for the given exchange contract
+ */
+export async function signOrder(
+  signer: ethers.Wallet,
+  order: UnsignedClobOrder,
+  exchange: { chainId: number; verifyingContract: string }
+): Promise<SignedClobOrder> {
+  const signature = await signer._signTypedData(
+    {
+      name: EXCHANGE_DOMAIN_NAME,
+      version: EXCHANGE_DOMAIN_VERSION,
+      chainId: exchange.chainId,
+      verifyingContract: exchange.verifyingContract,
+    },
+    ORDER_TYPES,
+    { ...order, side: SIDE_VALUES[order.side] }
+  );
+
+  return { ...order, signature };
+}
@@ -3,7 +3,8 @@
  * Cryptographic utilities for encryption and signing
  */
 
-export { KeyVault, type EncryptedData, type KeyVaultConfig } from './key-vault';
+export { KeyVault, LEGACY_KEY_VERSION, type EncryptedData, type KeyVaultConfig } from './key-vault';
+export { LocalKeyProvider } from './local-key-provider';
 export {
   createHmacSignature,
   verifyHmacSignature,
@@ -0,0 +1,31 @@
+/**
+ * Key material parsing shared by KeyVault and key providers
+ */
+
+/**
+ * Parse a 32-byte key given as a Buffer, hex (64 chars) or base64 (44 chars)
+ *
+ * @param role - What the key is, to name it in errors, e.g. 'Master key'
+ */
+export function parseKey(key: unknown, role: string): Buffer {
+  let buffer: Buffer;
+  if (Buffer.isBuffer(key)) {
+    buffer = key;
+  } else if (typeof key === 'string') {
+    // Try hex first, then base64
+    buffer = /^[0-9a-fA-F]+$/.test(key) && key.length === 64
+      ? Buffer.from(key, 'hex')
+      : Buffer.from(key, 'base64');
+    if (buffer.length !== 32) {
+      throw new Error(`${role} must be 32 bytes as hex (64 chars) or base64 (44 chars)`);
+    }
+  } else {
+    throw new Error(`${role} must be a Buffer or string`);
+  }
+
+  // Validate key length
+  if (buffer.length !== 32) {
+    throw new Error(`${role} must be 32 bytes (256 bits), got ${buffer.length} bytes`);
+  }
+  return buffer;
+}
@@ -1,10 +1,25 @@
 /**
  * KeyVault - Secure encryption/decryption for private keys
  * Uses AES-256-GCM for authenticated encryption
+ *
+ * Two strategies are supported:
+ * - aes-256-gcm: data is encrypted directly with a (versioned) master key
+ * - envelope-aes-256-gcm: each value gets its own random data key, which is
+ *   wrapped by a KeyEncryptionProvider (local key file, cloud KMS, HSM)
+ *
+ * KEK providers may be remote, so envelope encryption is only available
+ * through encryptAsync/decryptAsync. encrypt/decrypt stay synchronous and
+ * only work with the master-key strategy.
  */
 
 import * as crypto from 'crypto';
-import type { EncryptionConfig } from '@quantish/types';
+import type {
+  EncryptionConfig,
+  KeyEncryptionProvider,
+  LocalKeyProviderConfig,
+} from '@quantish/types';
+import { LocalKeyProvider } from './local-key-provider';
+import { parseKey } from './key-material';
 
 export interface EncryptedData {
   /** Base64 encoded encrypted data */
@@ -13,103 +28,278 @@ export interface EncryptedData {
   iv: string;
   /** Base64 encoded authentication tag */
   authTag: string;
+  /** Version of the master key used (absent on data written before versioning, treated as 1) */
+  keyVersion?: number;
+  /** Base64 encoded wrapped data key (envelope encryption only) */
+  wrappedDataKey?: string;
+  /** Id of the KEK that wrapped the data key (envelope encryption only) */
+  kekId?: string;
 }
 
 export interface KeyVaultConfig {
   /** Master key for encryption (32 bytes) */
-  masterKey: Buffer;
-  /** Algorithm to use (default: aes-256-gcm) */
-  algorithm?: 'aes-256-gcm';
+  masterKey?: Buffer | string;
+  /** Version number of masterKey (default: 1) */
+  keyVersion?: number;
+  /** Retired master keys that can still decrypt existing data */
+  previousKeys?: Array<{ version: number; masterKey: Buffer | string }>;
+  /** Algorithm to use (default: aes-256-gcm, or envelope when keyProvider is set) */
+  algorithm?: 'aes-256-gcm' | 'envelope-aes-256-gcm';
+  /** Key-encryption-key provider for envelope encryption */
+  keyProvider?: KeyEncryptionProvider | LocalKeyProviderConfig;
 }
 
-export class KeyVault {
-  private readonly masterKey: Buffer;
-  private readonly algorithm: string = 'aes-256-gcm';
-  private readonly ivLength: number = 16;
-  private readonly authTagLength: number = 16;
+/** Version assumed for ciphertexts that carry no keyVersion */
+export const LEGACY_KEY_VERSION = 1;
 
-  constructor(config: KeyVaultConfig | EncryptionConfig) {
-    // Handle both config formats
-    if ('masterKey' in config) {
-      if (Buffer.isBuffer(config.masterKey)) {
-        this.masterKey = config.masterKey;
-      } else if (typeof config.masterKey === 'string') {
-        // Parse string as hex or base64
-        this.masterKey = this.parseKey(config.masterKey);
-      } else {
-        throw new Error('masterKey must be a Buffer or string');
+const CIPHER_ALGORITHM: crypto.CipherGCMTypes = 'aes-256-gcm';
+const IV_LENGTH = 16;
+const AUTH_TAG_LENGTH = 16;
+const DATA_KEY_LENGTH = 32;
+
+function aesGcmEncrypt(key: Buffer, plaintext: string): Pick<EncryptedData, 'encrypted' | 'iv' | 'authTag'> {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER_ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+
+  let encrypted = cipher.update(plaintext, 'utf8', 'base64');
+  encrypted += cipher.final('base64');
+
+  return {
+    encrypted,
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+  };
+}
+
+function aesGcmDecrypt(key: Buffer, data: EncryptedData): string {
+  const iv = Buffer.from(data.iv, 'base64');
+  const authTag = Buffer.from(data.authTag, 'base64');
+  const encrypted = Buffer.from(data.encrypted, 'base64');
+
+  const decipher = crypto.createDecipheriv(CIPHER_ALGORITHM, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAuthTag(authTag);
+
+  let decrypted = decipher.update(encrypted);
+  decrypted = Buffer.concat([decrypted, decipher.final()]);
+
+  return decrypted.toString('utf8');
+}
+
+/**
+ * How KeyVault turns plaintext into EncryptedData and back
+ */
+interface EncryptionStrategy {
+  encrypt(plaintext: string): Promise<EncryptedData>;
+  decrypt(data: EncryptedData): Promise<string>;
+  needsReencryption(data: EncryptedData): boolean;
+}
+
+/**
+ * Encrypt directly with a versioned master key
+ */
+class MasterKeyStrategy implements EncryptionStrategy {
+  private readonly keys: Map<number, Buffer> = new Map();
+
+  constructor(
+    masterKey: Buffer | string,
+    readonly keyVersion: number,
+    previousKeys: Array<{ version: number; masterKey: Buffer | string }> = []
+  ) {
+    if (!Number.isInteger(keyVersion) || keyVersion < 1) {
+      throw new Error(`keyVersion must be a positive integer, got ${keyVersion}`);
+    }
+    this.keys.set(keyVersion, parseKey(masterKey, 'Master key'));
+
+    for (const previous of previousKeys) {
+      if (this.keys.has(previous.version)) {
+        throw new Error(`Duplicate master key version ${previous.version}`);
       }
-    } else {
-      throw new Error('masterKey is required');
+      this.keys.set(previous.version, parseKey(previous.masterKey, `Master key version ${previous.version}`));
     }
+  }
+
+  encryptSync(plaintext: string): EncryptedData {
+    const key = this.keys.get(this.keyVersion)!;
+    return { ...aesGcmEncrypt(key, plaintext), keyVersion: this.keyVersion };
+  }
 
-    // Validate key length
-    if (this.masterKey.length !== 32) {
-      throw new Error(`Master key must be 32 bytes (256 bits), got ${this.masterKey.length} bytes`);
+  decryptSync(data: EncryptedData): string {
+    if (data.wrappedDataKey) {
+      throw new Error('Data is envelope-encrypted; configure a keyProvider to read it');
     }
+    const version = data.keyVersion ?? LEGACY_KEY_VERSION;
+    const key = this.keys.get(version);
+    if (!key) {
+      throw new Error(`No master key available for key version ${version}`);
+    }
+    return aesGcmDecrypt(key, data);
+  }
+
+  async encrypt(plaintext: string): Promise<EncryptedData> {
+    return this.encryptSync(plaintext);
+  }
+
+  async decrypt(data: EncryptedData): Promise<string> {
+    return this.decryptSync(data);
   }
 
   /**
-   * Parse a key string (hex or base64) to Buffer
+   * Envelope data is never due: without a keyProvider it cannot be read, so
+   * it cannot be moved back to the master key
    */
-  private parseKey(key: string): Buffer {
-    // Try hex first
-    if (/^[0-9a-fA-F]+$/.test(key) && key.length === 64) {
-      return Buffer.from(key, 'hex');
+  needsReencryption(data: EncryptedData): boolean {
+    return !data.wrappedDataKey && (data.keyVersion ?? LEGACY_KEY_VERSION) !== this.keyVersion;
+  }
+}
+
+/**
+ * Encrypt with a fresh data key per value, wrapped by a KEK provider
+ */
+class EnvelopeStrategy implements EncryptionStrategy {
+  constructor(
+    private readonly provider: KeyEncryptionProvider,
+    /** Reads data written with a master key before switching to envelope */
+    private readonly legacy: MasterKeyStrategy | null
+  ) {}
+
+  async encrypt(plaintext: string): Promise<EncryptedData> {
+    const dataKey = crypto.randomBytes(DATA_KEY_LENGTH);
+    try {
+      const wrapped = await this.provider.wrapKey(dataKey);
+      return {
+        ...aesGcmEncrypt(dataKey, plaintext),
+        wrappedDataKey: wrapped.ciphertext,
+        kekId: wrapped.keyId,
+      };
+    } finally {
+      dataKey.fill(0);
+    }
+  }
+
+  async decrypt(data: EncryptedData): Promise<string> {
+    if (!data.wrappedDataKey || !data.kekId) {
+      if (!this.legacy) {
+        throw new Error('Data is not envelope-encrypted and no masterKey is configured to read it');
+      }
+      return this.legacy.decrypt(data);
+    }
+
+    const dataKey = Buffer.from(
+      await this.provider.unwrapKey({ keyId: data.kekId, ciphertext: data.wrappedDataKey })
+    );
+    try {
+      return aesGcmDecrypt(dataKey, data);
+    } finally {
+      dataKey.fill(0);
     }
-    // Try base64
-    const base64 = Buffer.from(key, 'base64');
-    if (base64.length === 32) {
-      return base64;
+  }
+
+  needsReencryption(data: EncryptedData): boolean {
+    return !data.wrappedDataKey || data.kekId !== this.provider.currentKeyId;
+  }
+}
+
+/**
+ * Build a provider from config, instantiating the bundled local provider when asked
+ */
+function resolveKeyProvider(config: KeyEncryptionProvider | LocalKeyProviderConfig): KeyEncryptionProvider {
+  if ('type' in config && config.type === 'local') {
+    return new LocalKeyProvider(config);
+  }
+  return config as KeyEncryptionProvider;
+}
+
+export class KeyVault {
+  private readonly strategy: EncryptionStrategy;
+  /** Set when the master-key strategy is in use, for the synchronous API */
+  private readonly masterKey: MasterKeyStrategy | null = null;
+  private readonly keyVersion?: number;
+  readonly algorithm: 'aes-256-gcm' | 'envelope-aes-256-gcm';
+
+  constructor(config: KeyVaultConfig | EncryptionConfig) {
+    this.algorithm = config.algorithm || (config.keyProvider ? 'envelope-aes-256-gcm' : 'aes-256-gcm');
+
+    const masterKeyStrategy = config.masterKey
+      ? new MasterKeyStrategy(
+          config.masterKey,
+          config.keyVersion ?? LEGACY_KEY_VERSION,
+          config.previousKeys
+        )
+      : null;
+
+    if (this.algorithm === 'envelope-aes-256-gcm') {
+      if (!config.keyProvider) {
+        throw new Error('keyProvider is required for envelope-aes-256-gcm');
+      }
+      this.strategy = new EnvelopeStrategy(resolveKeyProvider(config.keyProvider), masterKeyStrategy);
+    } else {
+      if (!masterKeyStrategy) {
+        throw new Error('masterKey is required');
+      }
+      this.strategy = masterKeyStrategy;
+      this.masterKey = masterKeyStrategy;
+      this.keyVersion = masterKeyStrategy.keyVersion;
     }
-    throw new Error('Master key must be 32 bytes as hex (64 chars) or base64 (44 chars)');
   }
 
   /**
-   * Encrypt data using AES-256-GCM
+   * Master key version stamped on newly encrypted data (undefined for envelope encryption)
    */
-  encrypt(plaintext: string): EncryptedData {
-    const iv = crypto.randomBytes(this.ivLength);
-    const cipher = crypto.createCipheriv(
-      this.algorithm as crypto.CipherGCMTypes,
-      this.masterKey,
-      iv,
-      { authTagLength: this.authTagLength }
-    );
+  get currentKeyVersion(): number | undefined {
+    return this.keyVersion;
+  }
 
-    let encrypted = cipher.update(plaintext, 'utf8', 'base64');
-    encrypted += cipher.final('base64');
+  /**
+   * Encrypt data using AES-256-GCM with the master key
+   *
+   * Throws with envelope encryption; use encryptAsync there.
+   */
+  encrypt(plaintext: string): EncryptedData {
+    return this.requireMasterKey('encrypt').encryptSync(plaintext);
+  }
 
-    const authTag = cipher.getAuthTag();
+  /**
+   * Decrypt master-key data using AES-256-GCM with the key version it was encrypted under
+   *
+   * Throws with envelope encryption; use decryptAsync there.
+   */
+  decrypt(encryptedData: EncryptedData): string {
+    return this.requireMasterKey('decrypt').decryptSync(encryptedData);
+  }
 
-    return {
-      encrypted,
-      iv: iv.toString('base64'),
-      authTag: authTag.toString('base64'),
-    };
+  /**
+   * Encrypt data with the configured strategy
+   */
+  encryptAsync(plaintext: string): Promise<EncryptedData> {
+    return this.strategy.encrypt(plaintext);
   }
 
   /**
-   * Decrypt data using AES-256-GCM
+   * Decrypt data with the configured strategy, using the key it was encrypted under
    */
-  decrypt(encryptedData: EncryptedData): string {
-    const iv = Buffer.from(encryptedData.iv, 'base64');
-    const authTag = Buffer.from(encryptedData.authTag, 'base64');
-    const encrypted = Buffer.from(encryptedData.encrypted, 'base64');
-
-    const decipher = crypto.createDecipheriv(
-      this.algorithm as crypto.CipherGCMTypes,
-      this.masterKey,
-      iv,
-      { authTagLength: this.authTagLength }
-    );
+  decryptAsync(encryptedData: EncryptedData): Promise<string> {
+    return this.strategy.decrypt(encryptedData);
+  }
 
-    decipher.setAuthTag(authTag);
+  /**
+   * Whether data was encrypted under an older key or a different strategy
+   */
+  needsReencryption(encryptedData: EncryptedData): boolean {
+    return this.strategy.needsReencryption(encryptedData);
+  }
 
-    let decrypted = decipher.update(encrypted);
-    decrypted = Buffer.concat([decrypted, decipher.final()]);
+  /**
+   * Decrypt with the original key and encrypt again under the current key
+   */
+  async reencrypt(encryptedData: EncryptedData): Promise<EncryptedData> {
+    return this.encryptAsync(await this.decryptAsync(encryptedData));
+  }
 
-    return decrypted.toString('utf8');
+  private requireMasterKey(method: 'encrypt' | 'decrypt'): MasterKeyStrategy {
+    if (!this.masterKey) {
+      throw new Error(`KeyVault.${method} only supports master-key encryption; use ${method}Async with ${this.algorithm}`);
+    }
+    return this.masterKey;
   }
 
   /**
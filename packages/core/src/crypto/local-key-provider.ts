@@ -0,0 +1,90 @@
+/**
+ * LocalKeyProvider - Key-encryption keys held in process, loaded from a key file
+ *
+ * Works offline and mirrors how a KMS/HSM is used: callers only ever see
+ * wrapped data keys and KEK ids, never the KEKs themselves.
+ *
+ * Key file format:
+ * {
+ *   "currentKeyId": "kek-2024-06",
+ *   "keys": { "kek-2024-01": "<hex or base64>", "kek-2024-06": "<hex or base64>" }
+ * }
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import type {
+  KeyEncryptionProvider,
+  LocalKeyProviderConfig,
+  WrappedDataKey,
+} from '@quantish/types';
+import { parseKey } from './key-material';
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export class LocalKeyProvider implements KeyEncryptionProvider {
+  private readonly keys: Map<string, Buffer> = new Map();
+  readonly currentKeyId: string;
+
+  constructor(config: Omit<LocalKeyProviderConfig, 'type'>) {
+    let keys = config.keys || {};
+    let currentKeyId = config.currentKeyId;
+
+    if (config.keyFile) {
+      const file = JSON.parse(fs.readFileSync(config.keyFile, 'utf8')) as {
+        currentKeyId?: string;
+        keys?: Record<string, string>;
+      };
+      keys = { ...file.keys, ...keys };
+      currentKeyId = currentKeyId || file.currentKeyId;
+    }
+
+    for (const [id, key] of Object.entries(keys)) {
+      this.keys.set(id, parseKey(key, `Key-encryption key "${id}"`));
+    }
+
+    if (!currentKeyId || !this.keys.has(currentKeyId)) {
+      throw new Error(`Current key-encryption key "${currentKeyId}" not found`);
+    }
+    this.currentKeyId = currentKeyId;
+  }
+
+  /**
+   * Wrap a data key with the current KEK (AES-256-GCM, KEK id bound as AAD)
+   */
+  async wrapKey(dataKey: Uint8Array): Promise<WrappedDataKey> {
+    const kek = this.keys.get(this.currentKeyId)!;
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', kek, iv, { authTagLength: AUTH_TAG_LENGTH });
+    cipher.setAAD(Buffer.from(this.currentKeyId, 'utf8'));
+
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+
+    return {
+      keyId: this.currentKeyId,
+      ciphertext: Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64'),
+    };
+  }
+
+  /**
+   * Unwrap a data key with the KEK it names
+   */
+  async unwrapKey(wrapped: WrappedDataKey): Promise<Uint8Array> {
+    const kek = this.keys.get(wrapped.keyId);
+    if (!kek) {
+      throw new Error(`Key-encryption key "${wrapped.keyId}" not found`);
+    }
+
+    const raw = Buffer.from(wrapped.ciphertext, 'base64');
+    const iv = raw.subarray(0, IV_LENGTH);
+    const authTag = raw.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const encrypted = raw.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', kek, iv, { authTagLength: AUTH_TAG_LENGTH });
+    decipher.setAAD(Buffer.from(wrapped.keyId, 'utf8'));
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+  }
+}
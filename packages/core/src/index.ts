@@ -8,6 +8,7 @@
  * - Wallet Generation
  * - Safe Deployment
  * - Relayer Client
+ * - CLOB Client
  */
 
 // Re-export types
@@ -16,8 +17,10 @@ export * from '@quantish/types';
 // Crypto utilities
 export {
   KeyVault,
+  LEGACY_KEY_VERSION,
   type EncryptedData,
   type KeyVaultConfig,
+  LocalKeyProvider,
   createHmacSignature,
   verifyHmacSignature,
   createSignedHeaders,
@@ -30,7 +33,9 @@ export {
 // Wallet utilities
 export {
   generateWallet,
+  generateWalletAsync,
   recoverWallet,
+  recoverWalletAsync,
   predictSafeAddress,
   isContractDeployed,
   type GeneratedWallet,
@@ -40,9 +45,47 @@ export {
   createApprovalSignatures,
   buildSafeTransaction,
   POLYGON_CONTRACTS,
+  SafeOperation,
   type SafeDeploymentConfig,
   type SafeDeploymentResult,
   type SafeTransaction,
+  getTokenBalance,
+  getWalletBalances,
+  deriveSafeAddress,
+  deriveProxyWalletAddress,
+  deriveWalletAddress,
+  checkDerivationFixtures,
+  verifyWalletAddress,
+  POLYMARKET_WALLET_FACTORIES,
+  type WalletFactoryType,
+  type WalletFactory,
+  type DerivationFixture,
+  getRequiredApprovals,
+  checkApprovals,
+  encodeApprovalCall,
+  encodeMultiSend,
+  buildApprovalTransaction,
+  type ApprovalKind,
+  type ApprovalRequirement,
+  type ApprovalState,
+  type ApprovalCheckResult,
+  type ApprovalContracts,
+  outcomeIndexSet,
+  negRiskQuestionId,
+  getConditionPayouts,
+  getConditionPositionIds,
+  getPositionBalances,
+  getNegRiskMarket,
+  encodeSplitPosition,
+  encodeMergePositions,
+  encodeConvertPositions,
+  encodeRedeemPositions,
+  type CtfContracts,
+  type CtfCall,
+  type ConditionPayouts,
+  type NegRiskQuestion,
+  type NegRiskMarket,
+  type RedeemPositionsCall,
 } from './wallet';
 
 // Relayer
@@ -54,6 +97,33 @@ export {
   type RelayerResponse,
 } from './relayer';
 
+// CLOB
+export {
+  ClobClient,
+  createPolymarketClob,
+  POLYMARKET_CLOB,
+  CLOB_MAX_BATCH_ORDERS,
+  type ClobClientConfig,
+  type ClobApiCredentials,
+  type ClobResponse,
+  type ClobOrderType,
+  type ClobOrderResponse,
+  type ClobOrderBook,
+  type ClobCancelResponse,
+  type ClobOpenOrder,
+  type ClobMakerOrder,
+  type ClobTrade,
+  buildOrder,
+  signOrder,
+  calculateOrderAmounts,
+  getExchangeAddress,
+  OrderSignatureType,
+  type ClobOrderSide,
+  type OrderParams,
+  type UnsignedClobOrder,
+  type SignedClobOrder,
+} from './clob';
+
 // Version
 export const VERSION = '0.1.0';
 
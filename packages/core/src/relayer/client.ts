@@ -3,7 +3,7 @@
  */
 
 import { ethers } from 'ethers';
-import type { SafeTransaction } from '../wallet/safe-deployer';
+import type { SafeOperation, SafeTransaction } from '../wallet/safe-deployer';
 
 export interface RelayerConfig {
   /** Relayer endpoint URL */
@@ -97,6 +97,7 @@ export class RelayerClient {
     data: string;
     ownerAddress: string;
     signature: string;
+    operation?: SafeOperation;
   }): Promise<RelayerResponse> {
     const transaction: SafeTransaction = {
       from: params.ownerAddress,
@@ -104,6 +105,7 @@ export class RelayerClient {
       proxyWallet: params.safeAddress,
       data: params.data,
       signature: params.signature,
+      ...(params.operation !== undefined && { operation: params.operation }),
     };
 
     return this.relay(transaction);
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkDerivationFixtures,
+  deriveProxyWalletAddress,
+  deriveSafeAddress,
+  deriveWalletAddress,
+  type DerivationFixture,
+} from './address-derivation';
+import fixtures from './fixtures/wallet-addresses.json';
+
+const vectors = fixtures as DerivationFixture[];
+
+describe('address derivation', () => {
+  it('matches the Safe factory vectors', () => {
+    for (const { owner, address } of vectors.filter((vector) => vector.type === 'safe')) {
+      expect(deriveSafeAddress(owner)).toBe(address);
+    }
+  });
+
+  it('matches the proxy-wallet factory vectors', () => {
+    for (const { owner, address } of vectors.filter((vector) => vector.type === 'proxy')) {
+      expect(deriveProxyWalletAddress(owner)).toBe(address);
+    }
+  });
+
+  it("includes Safe and proxy vectors derived by Polymarket's own clients", () => {
+    // The SDK builds the proxy init code from the wallet bytecode, so its
+    // vector also checks our proxy init code hash
+    const independent = vectors.filter((vector) => vector.source?.startsWith('@polymarket/'));
+    expect(independent.map((vector) => vector.type).sort()).toEqual(['proxy', 'safe']);
+  });
+
+  it('ignores the case of the owner address', () => {
+    const [vector] = vectors;
+    expect(deriveWalletAddress(vector.owner.toLowerCase(), vector.type)).toBe(vector.address);
+  });
+
+  it('derives different Safe and proxy addresses for the same owner', () => {
+    const owner = vectors[0].owner;
+    expect(deriveWalletAddress(owner, 'safe')).not.toBe(deriveWalletAddress(owner, 'proxy'));
+  });
+
+  it('reports only the fixtures that do not match', () => {
+    expect(checkDerivationFixtures(vectors)).toEqual([]);
+
+    const wrong = { ...vectors[0], type: 'proxy' as const };
+    expect(checkDerivationFixtures([wrong, vectors[1]])).toEqual([
+      { ...wrong, derived: deriveProxyWalletAddress(wrong.owner) },
+    ]);
+  });
+});
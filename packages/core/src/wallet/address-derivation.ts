@@ -0,0 +1,115 @@
+/**
+ * Address Derivation - Predict Polymarket wallet addresses for an owner EOA
+ *
+ * Polymarket deploys two kinds of smart wallets, both via CREATE2:
+ * - Gnosis Safe via the Safe proxy factory, salted with abi.encode(owner)
+ * - Proxy wallet via the proxy-wallet factory, salted with encodePacked(owner)
+ *
+ * This is the single source of truth for wallet addresses. Use
+ * verifyWalletAddress before sending funds to a wallet that is not deployed yet.
+ */
+
+import { ethers } from 'ethers';
+
+export type WalletFactoryType = 'safe' | 'proxy';
+
+export interface WalletFactory {
+  /** Factory contract address */
+  factory: string;
+  /** keccak256 of the proxy init code the factory deploys */
+  initCodeHash: string;
+}
+
+export interface DerivationFixture {
+  owner: string;
+  type: WalletFactoryType;
+  address: string;
+  /** Where the address comes from, when it is not our own derivation */
+  source?: string;
+}
+
+// Polymarket wallet factories on Polygon
+export const POLYMARKET_WALLET_FACTORIES: Record<WalletFactoryType, WalletFactory> = {
+  safe: {
+    factory: '0xaacFeEa03eb1561C4e67d661e40682Bd20E3541b',
+    initCodeHash: '0x2bce2127ff07fb632d16c8347c4ebf501f4841168bed00d9e6ef715ddb6fcecf',
+  },
+  proxy: {
+    factory: '0xaB45c5A4B0c941a2F231C04C3f49182e1A254052',
+    initCodeHash: '0xd21df8dc65880a8606f09fe0ce3df9b8869287ab0b058be05aa9e8af6330a00b',
+  },
+};
+
+const SAFE_FACTORY_ABI = [
+  'function computeProxyAddress(address user) view returns (address)',
+];
+
+/**
+ * Derive the Safe address the Polymarket Safe factory deploys for an owner
+ */
+export function deriveSafeAddress(
+  ownerAddress: string,
+  factory: WalletFactory = POLYMARKET_WALLET_FACTORIES.safe
+): string {
+  const salt = ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(['address'], [ownerAddress])
+  );
+  return ethers.utils.getCreate2Address(factory.factory, salt, factory.initCodeHash);
+}
+
+/**
+ * Derive the proxy wallet address the Polymarket proxy-wallet factory deploys for an owner
+ */
+export function deriveProxyWalletAddress(
+  ownerAddress: string,
+  factory: WalletFactory = POLYMARKET_WALLET_FACTORIES.proxy
+): string {
+  const salt = ethers.utils.keccak256(
+    ethers.utils.solidityPack(['address'], [ownerAddress])
+  );
+  return ethers.utils.getCreate2Address(factory.factory, salt, factory.initCodeHash);
+}
+
+/**
+ * Derive a wallet address by factory type
+ */
+export function deriveWalletAddress(
+  ownerAddress: string,
+  type: WalletFactoryType = 'safe'
+): string {
+  return type === 'safe'
+    ? deriveSafeAddress(ownerAddress)
+    : deriveProxyWalletAddress(ownerAddress);
+}
+
+/**
+ * Check derivation against known owner -> address pairs
+ *
+ * Returns the fixtures that did not match (empty when all pass).
+ */
+export function checkDerivationFixtures(
+  fixtures: DerivationFixture[]
+): Array<DerivationFixture & { derived: string }> {
+  return fixtures
+    .map(fixture => ({ ...fixture, derived: deriveWalletAddress(fixture.owner, fixture.type) }))
+    .filter(result => result.derived.toLowerCase() !== result.address.toLowerCase());
+}
+
+/**
+ * Confirm a derived Safe address with the factory contract on chain
+ */
+export async function verifyWalletAddress(
+  provider: ethers.providers.Provider,
+  ownerAddress: string,
+  factory: WalletFactory = POLYMARKET_WALLET_FACTORIES.safe
+): Promise<{ derived: string; onChain: string; verified: boolean }> {
+  const derived = deriveSafeAddress(ownerAddress, factory);
+  const contract = new ethers.Contract(factory.factory, SAFE_FACTORY_ABI, provider);
+  const onChain: string = await contract.computeProxyAddress(ownerAddress);
+
+  return {
+    derived,
+    onChain,
+    verified: onChain.toLowerCase() === derived.toLowerCase(),
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Approvals - Token approvals a Safe needs to trade on Polymarket
+ *
+ * Trading standard and negative-risk markets requires USDC allowances and
+ * ERC-1155 operator approvals on the Conditional Tokens contract for the CTF
+ * Exchange, the Neg Risk CTF Exchange and the Neg Risk Adapter. The whole set
+ * is submitted as a single Safe transaction through MultiSend.
+ */
+
+import { ethers } from 'ethers';
+import { POLYGON_CONTRACTS, buildSafeTransaction, SafeOperation, type SafeTransaction } from './safe-deployer';
+
+export type ApprovalKind = 'erc20' | 'erc1155';
+
+export interface ApprovalRequirement {
+  /** erc20 = USDC allowance, erc1155 = setApprovalForAll on Conditional Tokens */
+  kind: ApprovalKind;
+  /** Token contract being approved */
+  token: string;
+  /** Contract allowed to move the token */
+  spender: string;
+}
+
+export interface ApprovalState extends ApprovalRequirement {
+  granted: boolean;
+}
+
+export interface ApprovalCheckResult {
+  /** Whether every required approval is in place */
+  allGranted: boolean;
+  approvals: ApprovalState[];
+}
+
+export interface ApprovalContracts {
+  usdc: string;
+  conditionalTokens: string;
+  ctfExchange: string;
+  negRiskCtfExchange: string;
+  negRiskAdapter: string;
+  multiSend: string;
+}
+
+const ERC20_APPROVAL_ABI = [
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+];
+
+const ERC1155_APPROVAL_ABI = [
+  'function setApprovalForAll(address operator, bool approved)',
+  'function isApprovedForAll(address owner, address operator) view returns (bool)',
+];
+
+const MULTI_SEND_ABI = [
+  'function multiSend(bytes transactions)',
+];
+
+/**
+ * Allowances below this are treated as missing. USDC decrements unlimited
+ * allowances as they are spent, so an exact MaxUint256 check would drift.
+ */
+const MIN_ALLOWANCE = ethers.constants.MaxUint256.div(2);
+
+/**
+ * List every approval a Safe needs to trade standard and neg-risk markets
+ */
+export function getRequiredApprovals(
+  contracts: ApprovalContracts = POLYGON_CONTRACTS
+): ApprovalRequirement[] {
+  const spenders = [contracts.ctfExchange, contracts.negRiskCtfExchange, contracts.negRiskAdapter];
+
+  return [
+    ...spenders.map((spender) => ({ kind: 'erc20' as const, token: contracts.usdc, spender })),
+    ...spenders.map((spender) => ({ kind: 'erc1155' as const, token: contracts.conditionalTokens, spender })),
+  ];
+}
+
+/**
+ * Read which approvals are already in place for an owner
+ */
+export async function checkApprovals(
+  provider: ethers.providers.Provider,
+  owner: string,
+  contracts: ApprovalContracts = POLYGON_CONTRACTS
+): Promise<ApprovalCheckResult> {
+  const approvals = await Promise.all(
+    getRequiredApprovals(contracts).map(async (approval): Promise<ApprovalState> => {
+      if (approval.kind === 'erc20') {
+        const token = new ethers.Contract(approval.token, ERC20_APPROVAL_ABI, provider);
+        const allowance: ethers.BigNumber = await token.allowance(owner, approval.spender);
+        return { ...approval, granted: allowance.gte(MIN_ALLOWANCE) };
+      }
+
+      const token = new ethers.Contract(approval.token, ERC1155_APPROVAL_ABI, provider);
+      const approved: boolean = await token.isApprovedForAll(owner, approval.spender);
+      return { ...approval, granted: approved };
+    })
+  );
+
+  return {
+    allGranted: approvals.every((approval) => approval.granted),
+    approvals,
+  };
+}
+
+/**
+ * Encode the approve/setApprovalForAll call for an approval
+ */
+export function encodeApprovalCall(approval: ApprovalRequirement): { to: string; data: string } {
+  if (approval.kind === 'erc20') {
+    const data = new ethers.utils.Interface(ERC20_APPROVAL_ABI).encodeFunctionData('approve', [
+      approval.spender,
+      ethers.constants.MaxUint256,
+    ]);
+    return { to: approval.token, data };
+  }
+
+  const data = new ethers.utils.Interface(ERC1155_APPROVAL_ABI).encodeFunctionData('setApprovalForAll', [
+    approval.spender,
+    true,
+  ]);
+  return { to: approval.token, data };
+}
+
+/**
+ * Pack calls into a MultiSend multiSend(bytes) payload
+ */
+export function encodeMultiSend(calls: Array<{ to: string; data: string; value?: ethers.BigNumberish }>): string {
+  const packed = ethers.utils.hexConcat(
+    calls.map((call) => {
+      const data = ethers.utils.arrayify(call.data);
+      return ethers.utils.solidityPack(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [SafeOperation.Call, call.to, call.value ?? 0, data.length, data]
+      );
+    })
+  );
+
+  return new ethers.utils.Interface(MULTI_SEND_ABI).encodeFunctionData('multiSend', [packed]);
+}
+
+/**
+ * Build one signed Safe transaction granting the given approvals
+ *
+ * Defaults to the full required set; pass the missing ones from
+ * checkApprovals to top up a partially approved Safe.
+ */
+export async function buildApprovalTransaction(
+  signer: ethers.Wallet,
+  safeAddress: string,
+  approvals: ApprovalRequirement[] = getRequiredApprovals(),
+  contracts: Pick<ApprovalContracts, 'multiSend'> = POLYGON_CONTRACTS
+): Promise<SafeTransaction> {
+  if (approvals.length === 0) {
+    throw new Error('No approvals to grant');
+  }
+
+  return buildSafeTransaction(
+    signer,
+    safeAddress,
+    contracts.multiSend,
+    encodeMultiSend(approvals.map(encodeApprovalCall)),
+    SafeOperation.DelegateCall
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Balances - Read EOA and Safe token balances from chain
+ */
+
+import { ethers } from 'ethers';
+import type { WalletBalances } from '@quantish/types';
+import { POLYGON_CONTRACTS } from './safe-deployer';
+
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+];
+
+const USDC_DECIMALS = 6;
+
+/**
+ * Read an ERC-20 balance in raw units
+ */
+export async function getTokenBalance(
+  provider: ethers.providers.Provider,
+  token: string,
+  owner: string
+): Promise<ethers.BigNumber> {
+  const contract = new ethers.Contract(token, ERC20_ABI, provider);
+  return contract.balanceOf(owner);
+}
+
+/**
+ * Read MATIC, WMATIC and USDC balances for an EOA and its Safe
+ *
+ * Amounts are returned as decimal strings in token units (e.g. "12.5").
+ */
+export async function getWalletBalances(
+  provider: ethers.providers.Provider,
+  eoaAddress: string,
+  safeAddress: string,
+  contracts: {
+    usdc: string;
+    nativeUsdc: string;
+    wmatic: string;
+  } = POLYGON_CONTRACTS
+): Promise<WalletBalances> {
+  const [
+    eoaMatic,
+    eoaUsdc,
+    safeMatic,
+    safeWmatic,
+    safeUsdc,
+    safeNativeUsdc,
+  ] = await Promise.all([
+    provider.getBalance(eoaAddress),
+    getTokenBalance(provider, contracts.usdc, eoaAddress),
+    provider.getBalance(safeAddress),
+    getTokenBalance(provider, contracts.wmatic, safeAddress),
+    getTokenBalance(provider, contracts.usdc, safeAddress),
+    getTokenBalance(provider, contracts.nativeUsdc, safeAddress),
+  ]);
+
+  return {
+    eoa: {
+      address: eoaAddress,
+      matic: ethers.utils.formatEther(eoaMatic),
+      usdc: ethers.utils.formatUnits(eoaUsdc, USDC_DECIMALS),
+    },
+    safe: {
+      address: safeAddress,
+      matic: ethers.utils.formatEther(safeMatic),
+      wmatic: ethers.utils.formatEther(safeWmatic),
+      usdc: ethers.utils.formatUnits(safeUsdc, USDC_DECIMALS),
+      nativeUsdc: ethers.utils.formatUnits(safeNativeUsdc, USDC_DECIMALS),
+    },
+  };
+}
@@ -0,0 +1,313 @@
+/**
+ * Conditional Tokens - Read, split, merge, convert and redeem outcome positions
+ *
+ * Outcome shares are ERC-1155 positions on the Conditional Tokens contract.
+ * Standard markets are collateralized by USDC directly; neg-risk markets go
+ * through the Neg Risk Adapter, which backs them with its wrapped USDC and
+ * must be the one to split, merge and redeem them.
+ *
+ * Polymarket markets are binary, so a complete set is one share of each of
+ * the two outcomes and is worth exactly 1 USDC.
+ *
+ * A neg-risk event is an adapter market of several such binary questions, at
+ * most one of which resolves YES. That lets NO shares of some questions be
+ * converted into USDC plus YES shares of the others.
+ */
+
+import { ethers } from 'ethers';
+import { POLYGON_CONTRACTS, SafeOperation } from './safe-deployer';
+import { encodeMultiSend } from './approvals';
+
+export interface CtfContracts {
+  usdc: string;
+  conditionalTokens: string;
+  negRiskAdapter: string;
+  multiSend: string;
+}
+
+/** A call for a Safe to make; MultiSend batches are delegate calls */
+export interface CtfCall {
+  to: string;
+  data: string;
+  operation?: SafeOperation;
+}
+
+export interface ConditionPayouts {
+  /** Whether the oracle has reported payouts */
+  resolved: boolean;
+  outcomeSlotCount: number;
+  /** Payout numerator per outcome index; all zero until resolved */
+  numerators: ethers.BigNumber[];
+  denominator: ethers.BigNumber;
+}
+
+export interface NegRiskQuestion {
+  index: number;
+  questionId: string;
+  conditionId: string;
+  yesTokenId: string;
+  noTokenId: string;
+}
+
+export interface NegRiskMarket {
+  marketId: string;
+  /** Zero if the adapter has no such market */
+  questionCount: number;
+  /** Fee taken from conversions, in basis points */
+  feeBips: number;
+  questions: NegRiskQuestion[];
+}
+
+export type RedeemPositionsCall =
+  | { negRisk: false; indexSets: ethers.BigNumberish[] }
+  | { negRisk: true; amounts: ethers.BigNumberish[] };
+
+const CONDITIONAL_TOKENS_ABI = [
+  'function getOutcomeSlotCount(bytes32 conditionId) view returns (uint256)',
+  'function payoutNumerators(bytes32 conditionId, uint256 index) view returns (uint256)',
+  'function payoutDenominator(bytes32 conditionId) view returns (uint256)',
+  'function getCollectionId(bytes32 parentCollectionId, bytes32 conditionId, uint256 indexSet) view returns (bytes32)',
+  'function getPositionId(address collateralToken, bytes32 collectionId) pure returns (uint256)',
+  'function balanceOfBatch(address[] owners, uint256[] ids) view returns (uint256[])',
+  'function splitPosition(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)',
+  'function mergePositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] partition, uint256 amount)',
+  'function redeemPositions(address collateralToken, bytes32 parentCollectionId, bytes32 conditionId, uint256[] indexSets)',
+];
+
+const NEG_RISK_ADAPTER_ABI = [
+  'function wcol() view returns (address)',
+  'function splitPosition(bytes32 conditionId, uint256 amount)',
+  'function mergePositions(bytes32 conditionId, uint256 amount)',
+  'function redeemPositions(bytes32 conditionId, uint256[] amounts)',
+  'function getQuestionCount(bytes32 marketId) view returns (uint256)',
+  'function getFeeBips(bytes32 marketId) view returns (uint256)',
+  'function getConditionId(bytes32 questionId) view returns (bytes32)',
+  'function getPositionId(bytes32 questionId, bool outcome) view returns (uint256)',
+  'function convertPositions(bytes32 marketId, uint256 indexSet, uint256 amount)',
+];
+
+const ERC20_APPROVE_ABI = [
+  'function approve(address spender, uint256 amount) returns (bool)',
+];
+
+/** Both outcomes of a binary condition */
+const BINARY_PARTITION = [1, 2];
+
+/**
+ * Index set of a single outcome: the bit at its index
+ */
+export function outcomeIndexSet(index: number): ethers.BigNumber {
+  return ethers.BigNumber.from(1).shl(index);
+}
+
+/**
+ * Read a condition's outcome count and reported payouts
+ */
+export async function getConditionPayouts(
+  provider: ethers.providers.Provider,
+  conditionId: string,
+  contracts: Pick<CtfContracts, 'conditionalTokens'> = POLYGON_CONTRACTS
+): Promise<ConditionPayouts> {
+  const ctf = new ethers.Contract(contracts.conditionalTokens, CONDITIONAL_TOKENS_ABI, provider);
+  const [slots, denominator]: [ethers.BigNumber, ethers.BigNumber] = await Promise.all([
+    ctf.getOutcomeSlotCount(conditionId),
+    ctf.payoutDenominator(conditionId),
+  ]);
+
+  const outcomeSlotCount = slots.toNumber();
+  const numerators: ethers.BigNumber[] = denominator.isZero()
+    ? Array.from({ length: outcomeSlotCount }, () => ethers.constants.Zero)
+    : await Promise.all(Array.from({ length: outcomeSlotCount }, (_, index) => ctf.payoutNumerators(conditionId, index)));
+
+  return { resolved: !denominator.isZero(), outcomeSlotCount, numerators, denominator };
+}
+
+/**
+ * Position ids (CLOB token ids) of each outcome of a condition, in outcome order
+ */
+export async function getConditionPositionIds(
+  provider: ethers.providers.Provider,
+  conditionId: string,
+  outcomeSlotCount: number,
+  negRisk: boolean,
+  contracts: CtfContracts = POLYGON_CONTRACTS
+): Promise<string[]> {
+  const ctf = new ethers.Contract(contracts.conditionalTokens, CONDITIONAL_TOKENS_ABI, provider);
+  const collateral: string = negRisk
+    ? await new ethers.Contract(contracts.negRiskAdapter, NEG_RISK_ADAPTER_ABI, provider).wcol()
+    : contracts.usdc;
+
+  return Promise.all(
+    Array.from({ length: outcomeSlotCount }, async (_, index) => {
+      const collectionId: string = await ctf.getCollectionId(ethers.constants.HashZero, conditionId, outcomeIndexSet(index));
+      const positionId: ethers.BigNumber = await ctf.getPositionId(collateral, collectionId);
+      return positionId.toString();
+    })
+  );
+}
+
+/**
+ * Read an owner's balance of each position id, in raw 6-decimal units
+ */
+export async function getPositionBalances(
+  provider: ethers.providers.Provider,
+  owner: string,
+  positionIds: string[],
+  contracts: Pick<CtfContracts, 'conditionalTokens'> = POLYGON_CONTRACTS
+): Promise<ethers.BigNumber[]> {
+  const ctf = new ethers.Contract(contracts.conditionalTokens, CONDITIONAL_TOKENS_ABI, provider);
+  return ctf.balanceOfBatch(positionIds.map(() => owner), positionIds);
+}
+
+/**
+ * Id of a neg-risk market's question: the market id plus the question index
+ */
+export function negRiskQuestionId(marketId: string, index: number): string {
+  return ethers.utils.hexZeroPad(ethers.BigNumber.from(marketId).add(index).toHexString(), 32);
+}
+
+/**
+ * Read a neg-risk market's questions and their conditions and token ids
+ */
+export async function getNegRiskMarket(
+  provider: ethers.providers.Provider,
+  marketId: string,
+  contracts: Pick<CtfContracts, 'negRiskAdapter'> = POLYGON_CONTRACTS
+): Promise<NegRiskMarket> {
+  const adapter = new ethers.Contract(contracts.negRiskAdapter, NEG_RISK_ADAPTER_ABI, provider);
+  const [count, feeBips]: [ethers.BigNumber, ethers.BigNumber] = await Promise.all([
+    adapter.getQuestionCount(marketId),
+    adapter.getFeeBips(marketId),
+  ]);
+
+  const questions = await Promise.all(
+    Array.from({ length: count.toNumber() }, async (_, index): Promise<NegRiskQuestion> => {
+      const questionId = negRiskQuestionId(marketId, index);
+      const [conditionId, yes, no]: [string, ethers.BigNumber, ethers.BigNumber] = await Promise.all([
+        adapter.getConditionId(questionId),
+        adapter.getPositionId(questionId, true),
+        adapter.getPositionId(questionId, false),
+      ]);
+      return { index, questionId, conditionId, yesTokenId: yes.toString(), noTokenId: no.toString() };
+    })
+  );
+
+  return { marketId, questionCount: count.toNumber(), feeBips: feeBips.toNumber(), questions };
+}
+
+/**
+ * Encode a split of USDC into complete sets, `amount` raw 6-decimal units
+ *
+ * Standard markets pull the USDC through Conditional Tokens, which the Safe
+ * does not otherwise approve, so the exact allowance is granted in the same
+ * MultiSend. The Neg Risk Adapter is already approved for USDC.
+ */
+export function encodeSplitPosition(
+  conditionId: string,
+  amount: ethers.BigNumberish,
+  negRisk: boolean,
+  contracts: CtfContracts = POLYGON_CONTRACTS
+): CtfCall {
+  if (negRisk) {
+    const data = new ethers.utils.Interface(NEG_RISK_ADAPTER_ABI).encodeFunctionData('splitPosition', [
+      conditionId,
+      amount,
+    ]);
+    return { to: contracts.negRiskAdapter, data };
+  }
+
+  const approve = new ethers.utils.Interface(ERC20_APPROVE_ABI).encodeFunctionData('approve', [
+    contracts.conditionalTokens,
+    amount,
+  ]);
+  const split = new ethers.utils.Interface(CONDITIONAL_TOKENS_ABI).encodeFunctionData('splitPosition', [
+    contracts.usdc,
+    ethers.constants.HashZero,
+    conditionId,
+    BINARY_PARTITION,
+    amount,
+  ]);
+  return {
+    to: contracts.multiSend,
+    data: encodeMultiSend([
+      { to: contracts.usdc, data: approve },
+      { to: contracts.conditionalTokens, data: split },
+    ]),
+    operation: SafeOperation.DelegateCall,
+  };
+}
+
+/**
+ * Encode a merge of complete sets back into USDC, `amount` raw 6-decimal units
+ */
+export function encodeMergePositions(
+  conditionId: string,
+  amount: ethers.BigNumberish,
+  negRisk: boolean,
+  contracts: CtfContracts = POLYGON_CONTRACTS
+): CtfCall {
+  if (negRisk) {
+    const data = new ethers.utils.Interface(NEG_RISK_ADAPTER_ABI).encodeFunctionData('mergePositions', [
+      conditionId,
+      amount,
+    ]);
+    return { to: contracts.negRiskAdapter, data };
+  }
+
+  const data = new ethers.utils.Interface(CONDITIONAL_TOKENS_ABI).encodeFunctionData('mergePositions', [
+    contracts.usdc,
+    ethers.constants.HashZero,
+    conditionId,
+    BINARY_PARTITION,
+    amount,
+  ]);
+  return { to: contracts.conditionalTokens, data };
+}
+
+/**
+ * Encode a conversion of `amount` NO shares (raw 6-decimal units) of each
+ * question in `indexSet` into USDC and YES shares of the other questions.
+ * Bit i of the index set selects question i.
+ */
+export function encodeConvertPositions(
+  marketId: string,
+  indexSet: ethers.BigNumberish,
+  amount: ethers.BigNumberish,
+  contracts: Pick<CtfContracts, 'negRiskAdapter'> = POLYGON_CONTRACTS
+): CtfCall {
+  const data = new ethers.utils.Interface(NEG_RISK_ADAPTER_ABI).encodeFunctionData('convertPositions', [
+    marketId,
+    indexSet,
+    amount,
+  ]);
+  return { to: contracts.negRiskAdapter, data };
+}
+
+/**
+ * Encode a redemption of a resolved condition
+ *
+ * Standard markets redeem the given index sets on Conditional Tokens. Neg-risk
+ * markets redeem through the adapter, which takes the amount of each outcome
+ * to redeem and needs setApprovalForAll on Conditional Tokens.
+ */
+export function encodeRedeemPositions(
+  conditionId: string,
+  call: RedeemPositionsCall,
+  contracts: CtfContracts = POLYGON_CONTRACTS
+): CtfCall {
+  if (call.negRisk) {
+    const data = new ethers.utils.Interface(NEG_RISK_ADAPTER_ABI).encodeFunctionData('redeemPositions', [
+      conditionId,
+      call.amounts,
+    ]);
+    return { to: contracts.negRiskAdapter, data };
+  }
+
+  const data = new ethers.utils.Interface(CONDITIONAL_TOKENS_ABI).encodeFunctionData('redeemPositions', [
+    contracts.usdc,
+    ethers.constants.HashZero,
+    conditionId,
+    call.indexSets,
+  ]);
+  return { to: contracts.conditionalTokens, data };
+}
@@ -5,7 +5,9 @@
 
 export {
   generateWallet,
+  generateWalletAsync,
   recoverWallet,
+  recoverWalletAsync,
   predictSafeAddress,
   isContractDeployed,
   type GeneratedWallet,
@@ -18,8 +20,57 @@ export {
   createApprovalSignatures,
   buildSafeTransaction,
   POLYGON_CONTRACTS,
+  SafeOperation,
   type SafeDeploymentConfig,
   type SafeDeploymentResult,
   type SafeTransaction,
 } from './safe-deployer';
 
+export {
+  getTokenBalance,
+  getWalletBalances,
+} from './balances';
+
+export {
+  deriveSafeAddress,
+  deriveProxyWalletAddress,
+  deriveWalletAddress,
+  checkDerivationFixtures,
+  verifyWalletAddress,
+  POLYMARKET_WALLET_FACTORIES,
+  type WalletFactoryType,
+  type WalletFactory,
+  type DerivationFixture,
+} from './address-derivation';
+
+export {
+  getRequiredApprovals,
+  checkApprovals,
+  encodeApprovalCall,
+  encodeMultiSend,
+  buildApprovalTransaction,
+  type ApprovalKind,
+  type ApprovalRequirement,
+  type ApprovalState,
+  type ApprovalCheckResult,
+  type ApprovalContracts,
+} from './approvals';
+
+export {
+  outcomeIndexSet,
+  negRiskQuestionId,
+  getConditionPayouts,
+  getConditionPositionIds,
+  getPositionBalances,
+  getNegRiskMarket,
+  encodeSplitPosition,
+  encodeMergePositions,
+  encodeConvertPositions,
+  encodeRedeemPositions,
+  type CtfContracts,
+  type CtfCall,
+  type ConditionPayouts,
+  type NegRiskQuestion,
+  type NegRiskMarket,
+  type RedeemPositionsCall,
+} from './ctf';
@@ -4,6 +4,7 @@
  */
 
 import { ethers } from 'ethers';
+import { deriveSafeAddress, POLYMARKET_WALLET_FACTORIES } from './address-derivation';
 
 export interface SafeDeploymentConfig {
   /** The EOA owner address */
@@ -31,6 +32,7 @@ export interface SafeDeploymentResult {
 export const POLYGON_CONTRACTS = {
   safeProxyFactory: '0xaacFeEa03eb1561C4e67d661e40682Bd20E3541b',
   safeSingleton: '0x69f4D1788e39c87893C980c06EdF4b7f686e2938',
+  proxyWalletFactory: '0xaB45c5A4B0c941a2F231C04C3f49182e1A254052',
   usdc: '0x2791Bca1f2de4661ED88A30C99A7a9449Aa84174',
   nativeUsdc: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
   wmatic: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
@@ -38,8 +40,18 @@ export const POLYGON_CONTRACTS = {
   negRiskAdapter: '0xd91E80cF2E7be2e162c6513ceD06f1dD0dA35296',
   negRiskCtfExchange: '0xC5d563A36AE78145C45a50134d48A1215220f80a',
   conditionalTokens: '0x4D97DCd97eC945f40cF65F87097ACe5EA0476045',
+  multiSend: '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761',
 };
 
+/**
+ * How the Safe executes a transaction: CALL the target, or DELEGATECALL it
+ * (used for MultiSend batches)
+ */
+export enum SafeOperation {
+  Call = 0,
+  DelegateCall = 1,
+}
+
 // Relayer ABI fragments
 const RELAYER_ABI = [
   'function relay((address from, address to, address proxyWallet, bytes data, bytes signature)) external returns (bool)',
@@ -67,56 +79,26 @@ export async function createSafeDeploymentSignature(
 
 /**
  * Calculate the Safe proxy address before deployment
+ *
+ * @deprecated Use deriveSafeAddress from address-derivation
  */
 export function calculateSafeAddress(
   ownerAddress: string,
   proxyFactory: string = POLYGON_CONTRACTS.safeProxyFactory,
-  singleton: string = POLYGON_CONTRACTS.safeSingleton
+  _singleton?: string // Unused, kept for compatibility
 ): string {
-  // Safe initialization data
-  const setupData = new ethers.utils.Interface([
-    'function setup(address[] calldata _owners, uint256 _threshold, address to, bytes calldata data, address fallbackHandler, address paymentToken, uint256 payment, address payable paymentReceiver)'
-  ]).encodeFunctionData('setup', [
-    [ownerAddress], // owners
-    1,              // threshold
-    ethers.constants.AddressZero,
-    '0x',
-    ethers.constants.AddressZero,
-    ethers.constants.AddressZero,
-    0,
-    ethers.constants.AddressZero,
-  ]);
-
-  // Calculate salt
-  const saltNonce = 0;
-  const salt = ethers.utils.keccak256(
-    ethers.utils.solidityPack(
-      ['bytes32', 'uint256'],
-      [ethers.utils.keccak256(setupData), saltNonce]
-    )
-  );
-
-  // Proxy creation bytecode
-  const proxyBytecode = `0x608060405234801561001057600080fd5b506040516101e63803806101e68339818101604052602081101561003357600080fd5b8101908080519060200190929190505050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614156100ca576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004018080602001828103825260228152602001806101c46022913960400191505060405180910390fd5b806000806101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055505060ab806101196000396000f3fe608060405273ffffffffffffffffffffffffffffffffffffffff600054167fa619486e0000000000000000000000000000000000000000000000000000000060003514156050578060005260206000f35b3660008037600080366000845af43d6000803e60008114156070573d6000fd5b3d6000f3fea264697066735822122003d1488ee65e08fa41e58e888a9865554c535f2c77126a82cb4c0f917f31441364736f6c63430007060033496e76616c69642073696e676c65746f6e20616464726573732070726f7669646564`;
-
-  // Append singleton address
-  const initCode = ethers.utils.solidityPack(
-    ['bytes', 'uint256'],
-    [proxyBytecode, singleton]
-  );
-
-  // Calculate CREATE2 address
-  const proxyAddress = ethers.utils.getCreate2Address(
-    proxyFactory,
-    salt,
-    ethers.utils.keccak256(initCode)
-  );
-
-  return proxyAddress;
+  return deriveSafeAddress(ownerAddress, {
+    ...POLYMARKET_WALLET_FACTORIES.safe,
+    factory: proxyFactory,
+  });
 }
 
 /**
  * Create approval signatures for Polymarket contracts
+ *
+ * @deprecated Signs only the USDC approval for the CTF Exchange. Use
+ * buildApprovalTransaction, which grants the full approval set in one
+ * Safe transaction.
  */
 export async function createApprovalSignatures(
   signer: ethers.Wallet,
@@ -165,18 +147,27 @@ export interface SafeTransaction {
   proxyWallet: string;
   data: string;
   signature: string;
+  /** Omitted for plain calls */
+  operation?: SafeOperation;
 }
 
 export async function buildSafeTransaction(
   signer: ethers.Wallet,
   safeAddress: string,
   to: string,
-  data: string
+  data: string,
+  operation: SafeOperation = SafeOperation.Call
 ): Promise<SafeTransaction> {
-  const messageHash = ethers.utils.solidityKeccak256(
-    ['string', 'address', 'address', 'bytes'],
-    ['SAFE-TX', safeAddress, to, data]
-  );
+  // Delegate calls commit to the operation so the signature cannot be replayed as a plain call
+  const messageHash = operation === SafeOperation.Call
+    ? ethers.utils.solidityKeccak256(
+        ['string', 'address', 'address', 'bytes'],
+        ['SAFE-TX', safeAddress, to, data]
+      )
+    : ethers.utils.solidityKeccak256(
+        ['string', 'address', 'address', 'bytes', 'uint8'],
+        ['SAFE-TX', safeAddress, to, data, operation]
+      );
 
   const signature = await signer.signMessage(ethers.utils.arrayify(messageHash));
 
@@ -186,6 +177,7 @@ export async function buildSafeTransaction(
     proxyWallet: safeAddress,
     data,
     signature,
+    ...(operation !== SafeOperation.Call && { operation }),
   };
 }
 
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CreateOrderInput, Order } from '@quantish/types';
+import { InMemoryAdapter } from './base';
+
+const MARKET_A = `0x${'aa'.repeat(32)}`;
+const MARKET_B = `0x${'bb'.repeat(32)}`;
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+function orderInput(userId: string, index: number): CreateOrderInput {
+  const conditionId = index % 2 === 0 ? MARKET_A : MARKET_B;
+  return {
+    userId,
+    conditionId,
+    tokenId: conditionId === MARKET_A ? '1001' : '2001',
+    side: index % 3 === 0 ? 'SELL' : 'BUY',
+    type: index % 5 === 0 ? 'GTD' : 'GTC',
+    price: 0.5,
+    size: 10,
+    status: index % 4 === 0 ? 'FILLED' : 'LIVE',
+  };
+}
+
+const ids = (orders: Order[]) => orders.map((order) => order.id);
+
+describe('InMemoryAdapter.listOrders', () => {
+  let database: InMemoryAdapter;
+  let userId: string;
+  /** All of the user's orders, oldest first */
+  let created: Order[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    database = new InMemoryAdapter();
+    await database.connect();
+    userId = (await database.createUser({
+      externalId: 'trader',
+      eoaAddress: `0x${'11'.repeat(20)}`,
+      encryptedPrivateKey: 'key',
+      keyIv: 'iv',
+      keyAuthTag: 'tag',
+    })).id;
+
+    created = [];
+    for (let i = 0; i < 130; i++) {
+      // Pairs of orders share a timestamp, so ties fall back to the id
+      vi.setSystemTime(START + Math.floor(i / 2) * 1000);
+      created.push(await database.createOrder(orderInput(userId, i)));
+    }
+    await database.createOrder(orderInput('someone-else', 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const oldestFirst = () => [...created].sort((a, b) =>
+    a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : 1));
+
+  it('returns every order, newest first, when no limit is given, like the Postgres adapter', async () => {
+    expect(ids(await database.listOrders(userId))).toEqual(ids(oldestFirst().reverse()));
+  });
+
+  it('sorts oldest first on request', async () => {
+    expect(ids(await database.listOrders(userId, { sort: 'asc' }))).toEqual(ids(oldestFirst()));
+  });
+
+  it('combines filters', async () => {
+    const orders = await database.listOrders(userId, {
+      status: ['LIVE', 'PARTIALLY_FILLED'],
+      side: 'BUY',
+      type: 'GTC',
+      conditionId: MARKET_B,
+      tokenId: '2001',
+      createdAfter: new Date(START + 10000),
+      createdBefore: new Date(START + 50000),
+    });
+
+    const expected = created.filter((order) =>
+      order.status === 'LIVE' && order.side === 'BUY' && order.type === 'GTC' && order.conditionId === MARKET_B
+      && order.createdAt.getTime() >= START + 10000 && order.createdAt.getTime() < START + 50000);
+    expect(expected.length).toBeGreaterThan(0);
+    expect(ids(orders).sort()).toEqual(ids(expected).sort());
+  });
+
+  it('pages by offset through the same order as an unpaged listing', async () => {
+    const all = await database.listOrders(userId, { conditionId: MARKET_B });
+    const pages: Order[] = [];
+    for (let offset = 0; offset < all.length; offset += 20) {
+      pages.push(...await database.listOrders(userId, { conditionId: MARKET_B, limit: 20, offset }));
+    }
+
+    expect(ids(pages)).toEqual(ids(all));
+  });
+
+  it.each(['asc', 'desc'] as const)('pages by %s cursor, including across timestamp ties', async (sort) => {
+    const all = await database.listOrders(userId, { sort });
+    const pages: Order[] = [];
+    for (;;) {
+      const last = pages[pages.length - 1];
+      const page = await database.listOrders(userId, {
+        sort,
+        limit: 7,
+        after: last && { createdAt: last.createdAt, id: last.id },
+      });
+      pages.push(...page);
+      if (page.length < 7) {
+        break;
+      }
+    }
+
+    expect(ids(pages)).toEqual(ids(all));
+  });
+});
@@ -4,21 +4,37 @@
  * Implement this interface to use your own database with Quantish
  */
 
-import type {
-  DatabaseAdapter,
-  User,
-  CreateUserInput,
-  ApiKey,
-  ApiKeyWithUser,
-  CreateApiKeyInput,
-  Order,
-  CreateOrderInput,
-  OrderFilters,
-  Position,
-  UpsertPositionInput,
-  Transaction,
-  CreateTransactionInput,
-  CreateActivityInput,
+import {
+  canTransitionOrder,
+  ORDER_STATUS_TRANSITIONS,
+  orderStatusAfterFill,
+  InvalidOrderTransitionError,
+  NotFoundError,
+  type DatabaseAdapter,
+  type User,
+  type UserWithKey,
+  type CreateUserInput,
+  type UpdateUserKeyInput,
+  type ListUsersWithKeysOptions,
+  type ApiKey,
+  type ApiKeyWithUser,
+  type CreateApiKeyInput,
+  type Order,
+  type CreateOrderInput,
+  type UpdateOrderInput,
+  type OrderFilters,
+  type OrderStatus,
+  type Fill,
+  type CreateFillInput,
+  type CreateFillResult,
+  type FillFilters,
+  type Position,
+  type UpsertPositionInput,
+  type Transaction,
+  type CreateTransactionInput,
+  type UpdateTransactionInput,
+  type TransactionFilters,
+  type CreateActivityInput,
 } from '@quantish/types';
 
 /**
@@ -52,7 +68,10 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
   abstract createUser(data: CreateUserInput): Promise<User>;
   abstract getUserById(id: string): Promise<User | null>;
   abstract getUserByExternalId(externalId: string): Promise<User | null>;
+  abstract getUserWithKey(id: string): Promise<UserWithKey | null>;
   abstract updateUser(id: string, data: Partial<User>): Promise<User>;
+  abstract listUsersWithKeys(options: ListUsersWithKeysOptions): Promise<UserWithKey[]>;
+  abstract updateUserKey(id: string, data: UpdateUserKeyInput): Promise<void>;
 
   // ============================================
   // API Key Operations
@@ -62,6 +81,7 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
   abstract getApiKeyByHash(hash: string): Promise<ApiKeyWithUser | null>;
   abstract revokeApiKey(id: string): Promise<void>;
   abstract listApiKeys(userId: string): Promise<ApiKey[]>;
+  abstract touchApiKey(id: string, usedAt: Date): Promise<void>;
 
   // ============================================
   // Order Operations
@@ -70,8 +90,16 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
   abstract createOrder(data: CreateOrderInput): Promise<Order>;
   abstract getOrderById(id: string): Promise<Order | null>;
   abstract getOrderByClobId(clobOrderId: string): Promise<Order | null>;
-  abstract updateOrder(id: string, data: Partial<Order>): Promise<Order>;
+  abstract updateOrder(id: string, data: UpdateOrderInput): Promise<Order>;
   abstract listOrders(userId: string, filters?: OrderFilters): Promise<Order[]>;
+  abstract listExpiredOrders(before: Date, limit: number): Promise<Order[]>;
+
+  // ============================================
+  // Fill Operations
+  // ============================================
+
+  abstract createFill(data: CreateFillInput): Promise<CreateFillResult>;
+  abstract listFills(userId: string, filters?: FillFilters): Promise<Fill[]>;
 
   // ============================================
   // Position Operations
@@ -85,6 +113,8 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
   // ============================================
 
   abstract createTransaction(data: CreateTransactionInput): Promise<Transaction>;
+  abstract updateTransaction(id: string, data: UpdateTransactionInput): Promise<Transaction>;
+  abstract listTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]>;
 
   // ============================================
   // Activity Logging
@@ -99,10 +129,12 @@ export abstract class BaseDatabaseAdapter implements DatabaseAdapter {
 export class InMemoryAdapter extends BaseDatabaseAdapter {
   private users: Map<string, User> = new Map();
   private usersByExternalId: Map<string, User> = new Map();
+  private userKeys: Map<string, UpdateUserKeyInput> = new Map();
   private apiKeys: Map<string, ApiKeyWithUser> = new Map();
   private apiKeysByHash: Map<string, ApiKeyWithUser> = new Map();
   private orders: Map<string, Order> = new Map();
   private ordersByClobId: Map<string, Order> = new Map();
+  private fills: Map<string, Fill> = new Map();
   private positions: Map<string, Position> = new Map();
   private transactions: Map<string, Transaction> = new Map();
 
@@ -124,11 +156,21 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
       safeDeployed: false,
       clobApiKeyCreated: false,
       approvalsGranted: false,
+      paper: data.paper ?? false,
+      paperBalance: data.paperBalance ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
     this.users.set(user.id, user);
     this.usersByExternalId.set(user.externalId, user);
+    this.userKeys.set(user.id, {
+      encryptedPrivateKey: data.encryptedPrivateKey,
+      keyIv: data.keyIv,
+      keyAuthTag: data.keyAuthTag,
+      keyVersion: data.keyVersion ?? null,
+      wrappedDataKey: data.wrappedDataKey ?? null,
+      kekId: data.kekId ?? null,
+    });
     return user;
   }
 
@@ -140,6 +182,13 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
     return this.usersByExternalId.get(externalId) || null;
   }
 
+  async getUserWithKey(id: string): Promise<UserWithKey | null> {
+    const user = this.users.get(id);
+    const key = this.userKeys.get(id);
+    if (!user || !key) return null;
+    return { ...user, ...key };
+  }
+
   async updateUser(id: string, data: Partial<User>): Promise<User> {
     const user = this.users.get(id);
     if (!user) throw new Error('User not found');
@@ -149,6 +198,20 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
     return updated;
   }
 
+  async listUsersWithKeys(options: ListUsersWithKeysOptions): Promise<UserWithKey[]> {
+    const ids = Array.from(this.users.keys())
+      .filter(id => options.afterId === undefined || id > options.afterId)
+      .sort()
+      .slice(0, options.limit);
+    const users = await Promise.all(ids.map(id => this.getUserWithKey(id)));
+    return users.filter((u): u is UserWithKey => u !== null);
+  }
+
+  async updateUserKey(id: string, data: UpdateUserKeyInput): Promise<void> {
+    if (!this.users.has(id)) throw new Error('User not found');
+    this.userKeys.set(id, { ...data });
+  }
+
   // API Key operations
   async createApiKey(userId: string, data: CreateApiKeyInput): Promise<ApiKey> {
     const user = await this.getUserById(userId);
@@ -161,6 +224,7 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
       keyPrefix: data.keyPrefix,
       createdAt: new Date(),
       lastUsedAt: null,
+      expiresAt: data.expiresAt || null,
       revokedAt: null,
       user,
       apiSecret: data.apiSecret,
@@ -171,7 +235,10 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
   }
 
   async getApiKeyByHash(hash: string): Promise<ApiKeyWithUser | null> {
-    return this.apiKeysByHash.get(hash) || null;
+    const key = this.apiKeysByHash.get(hash);
+    if (!key) return null;
+    // Return the current user record, not the snapshot taken at key creation
+    return { ...key, user: this.users.get(key.userId) || key.user };
   }
 
   async revokeApiKey(id: string): Promise<void> {
@@ -182,7 +249,16 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
   }
 
   async listApiKeys(userId: string): Promise<ApiKey[]> {
-    return Array.from(this.apiKeys.values()).filter(k => k.userId === userId);
+    return Array.from(this.apiKeys.values())
+      .filter(k => k.userId === userId && !k.revokedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async touchApiKey(id: string, usedAt: Date): Promise<void> {
+    const key = this.apiKeys.get(id);
+    if (key) {
+      key.lastUsedAt = usedAt;
+    }
   }
 
   // Order operations
@@ -210,9 +286,12 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
     return this.ordersByClobId.get(clobOrderId) || null;
   }
 
-  async updateOrder(id: string, data: Partial<Order>): Promise<Order> {
+  async updateOrder(id: string, data: UpdateOrderInput): Promise<Order> {
     const order = this.orders.get(id);
-    if (!order) throw new Error('Order not found');
+    if (!order) throw new NotFoundError('Order not found');
+    if (data.status && !canTransitionOrder(order.status, data.status)) {
+      throw new InvalidOrderTransitionError(order.status, data.status);
+    }
     const updated = { ...order, ...data, updatedAt: new Date() };
     this.orders.set(id, updated);
     if (updated.clobOrderId) {
@@ -221,18 +300,83 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
     return updated;
   }
 
-  async listOrders(userId: string, filters?: OrderFilters): Promise<Order[]> {
-    let orders = Array.from(this.orders.values()).filter(o => o.userId === userId);
-    if (filters?.status) {
-      orders = orders.filter(o => o.status === filters.status);
-    }
-    if (filters?.side) {
-      orders = orders.filter(o => o.side === filters.side);
+  async listOrders(userId: string, filters: OrderFilters = {}): Promise<Order[]> {
+    const statuses = filters.status === undefined ? undefined : ([] as OrderStatus[]).concat(filters.status);
+    const direction = filters.sort === 'asc' ? 1 : -1;
+    const compare = (a: { createdAt: Date; id: string }, b: { createdAt: Date; id: string }) =>
+      (a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)) * direction;
+
+    const orders = Array.from(this.orders.values())
+      .filter(o => o.userId === userId)
+      .filter(o => !statuses || statuses.includes(o.status))
+      .filter(o => !filters.side || o.side === filters.side)
+      .filter(o => !filters.type || o.type === filters.type)
+      .filter(o => !filters.conditionId || o.conditionId === filters.conditionId)
+      .filter(o => !filters.tokenId || o.tokenId === filters.tokenId)
+      .filter(o => !filters.createdAfter || o.createdAt >= filters.createdAfter)
+      .filter(o => !filters.createdBefore || o.createdAt < filters.createdBefore)
+      .filter(o => !filters.after || compare(o, filters.after) > 0)
+      .sort(compare);
+
+    const offset = filters.offset || 0;
+    return orders.slice(offset, filters.limit !== undefined ? offset + filters.limit : undefined);
+  }
+
+  async listExpiredOrders(before: Date, limit: number): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter(o => o.type === 'GTD' && o.expiresAt && o.expiresAt <= before)
+      .filter(o => ORDER_STATUS_TRANSITIONS[o.status].includes('EXPIRED'))
+      .sort((a, b) => a.expiresAt!.getTime() - b.expiresAt!.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit);
+  }
+
+  // Fill operations
+  async createFill(data: CreateFillInput): Promise<CreateFillResult> {
+    const order = this.orders.get(data.orderId);
+    if (!order) throw new NotFoundError('Order not found');
+
+    const existing = Array.from(this.fills.values())
+      .find(f => f.orderId === data.orderId && f.tradeId === data.tradeId);
+    if (existing) {
+      return { fill: existing, order, created: false };
     }
-    if (filters?.limit) {
-      orders = orders.slice(0, filters.limit);
+
+    const filledSize = Array.from(this.fills.values())
+      .filter(f => f.orderId === data.orderId)
+      .reduce((total, f) => total + f.size, data.size);
+    const status = orderStatusAfterFill(order, filledSize);
+
+    const fill: Fill = {
+      id: crypto.randomUUID(),
+      orderId: order.id,
+      userId: order.userId,
+      tradeId: data.tradeId,
+      conditionId: order.conditionId,
+      tokenId: order.tokenId,
+      side: order.side,
+      price: data.price,
+      size: data.size,
+      fee: data.fee ?? 0,
+      filledAt: data.filledAt ?? new Date(),
+      createdAt: new Date(),
+    };
+    this.fills.set(fill.id, fill);
+
+    const updated = { ...order, filledSize, status, updatedAt: new Date() };
+    this.orders.set(order.id, updated);
+    if (updated.clobOrderId) {
+      this.ordersByClobId.set(updated.clobOrderId, updated);
     }
-    return orders;
+    return { fill, order: updated, created: true };
+  }
+
+  async listFills(userId: string, filters: FillFilters = {}): Promise<Fill[]> {
+    return Array.from(this.fills.values())
+      .filter(f => f.userId === userId)
+      .filter(f => !filters.orderId || f.orderId === filters.orderId)
+      .filter(f => !filters.tokenId || f.tokenId === filters.tokenId)
+      .filter(f => !filters.filledAfter || f.filledAt >= filters.filledAfter)
+      .sort((a, b) => a.filledAt.getTime() - b.filledAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
   }
 
   // Position operations
@@ -264,6 +408,24 @@ export class InMemoryAdapter extends BaseDatabaseAdapter {
     return tx;
   }
 
+  async updateTransaction(id: string, data: UpdateTransactionInput): Promise<Transaction> {
+    const tx = this.transactions.get(id);
+    if (!tx) throw new NotFoundError('Transaction not found');
+    const updated = { ...tx, ...data, updatedAt: new Date() };
+    this.transactions.set(id, updated);
+    return updated;
+  }
+
+  async listTransactions(userId: string, filters: TransactionFilters = {}): Promise<Transaction[]> {
+    const types = filters.type === undefined ? null : ([] as string[]).concat(filters.type);
+    const statuses = filters.status === undefined ? null : ([] as string[]).concat(filters.status);
+    return Array.from(this.transactions.values())
+      .filter(t => t.userId === userId)
+      .filter(t => !types || types.includes(t.type))
+      .filter(t => !statuses || statuses.includes(t.status))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
   // Activity logging (no-op for in-memory)
   async logActivity(_data: CreateActivityInput): Promise<void> {
     // No-op for in-memory adapter
@@ -12,22 +12,44 @@
  */
 
 import { BaseDatabaseAdapter } from './base';
+import {
+  canTransitionOrder,
+  ORDER_STATUS_TRANSITIONS,
+  orderStatusAfterFill,
+  InvalidOrderTransitionError,
+  NotFoundError,
+  QuantishError,
+} from '@quantish/types';
 import type {
   User,
+  UserWithKey,
   CreateUserInput,
+  UpdateUserKeyInput,
+  ListUsersWithKeysOptions,
   ApiKey,
   ApiKeyWithUser,
   CreateApiKeyInput,
   Order,
   CreateOrderInput,
+  UpdateOrderInput,
   OrderFilters,
+  OrderStatus,
+  Fill,
+  CreateFillInput,
+  CreateFillResult,
+  FillFilters,
   Position,
   UpsertPositionInput,
   Transaction,
   CreateTransactionInput,
+  UpdateTransactionInput,
+  TransactionFilters,
   CreateActivityInput,
 } from '@quantish/types';
 
+/** Optimistic updateOrder attempts before giving up on a contended order */
+const MAX_ORDER_UPDATE_ATTEMPTS = 3;
+
 export interface PostgresConfig {
   /** PostgreSQL connection string */
   connectionString: string;
@@ -89,6 +111,11 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
         encryptedPrivateKey: data.encryptedPrivateKey,
         keyIv: data.keyIv,
         keyAuthTag: data.keyAuthTag,
+        keyVersion: data.keyVersion,
+        wrappedDataKey: data.wrappedDataKey,
+        kekId: data.kekId,
+        paper: data.paper ?? false,
+        paperBalance: data.paperBalance ?? null,
       },
     });
   }
@@ -101,6 +128,11 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
     return this.prisma.user.findUnique({ where: { externalId } });
   }
 
+  async getUserWithKey(id: string): Promise<UserWithKey | null> {
+    // The user row stores the encrypted key columns alongside the profile
+    return this.prisma.user.findUnique({ where: { id } });
+  }
+
   async updateUser(id: string, data: Partial<User>): Promise<User> {
     return this.prisma.user.update({
       where: { id },
@@ -108,6 +140,28 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
     });
   }
 
+  async listUsersWithKeys(options: ListUsersWithKeysOptions): Promise<UserWithKey[]> {
+    return this.prisma.user.findMany({
+      where: options.afterId ? { id: { gt: options.afterId } } : {},
+      orderBy: { id: 'asc' },
+      take: options.limit,
+    });
+  }
+
+  async updateUserKey(id: string, data: UpdateUserKeyInput): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: {
+        encryptedPrivateKey: data.encryptedPrivateKey,
+        keyIv: data.keyIv,
+        keyAuthTag: data.keyAuthTag,
+        keyVersion: data.keyVersion,
+        wrappedDataKey: data.wrappedDataKey,
+        kekId: data.kekId,
+      },
+    });
+  }
+
   // ============================================
   // API Key Operations
   // ============================================
@@ -120,6 +174,7 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
         keyHash: data.keyHash,
         keyPrefix: data.keyPrefix,
         apiSecret: data.apiSecret,
+        expiresAt: data.expiresAt,
       },
     });
   }
@@ -145,6 +200,13 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
     });
   }
 
+  async touchApiKey(id: string, usedAt: Date): Promise<void> {
+    await this.prisma.userApiKey.update({
+      where: { id },
+      data: { lastUsedAt: usedAt },
+    });
+  }
+
   // ============================================
   // Order Operations
   // ============================================
@@ -161,21 +223,130 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
     return this.prisma.order.findFirst({ where: { clobOrderId } });
   }
 
-  async updateOrder(id: string, data: Partial<Order>): Promise<Order> {
-    return this.prisma.order.update({ where: { id }, data });
+  async updateOrder(id: string, data: UpdateOrderInput): Promise<Order> {
+    for (let attempt = 0; attempt < MAX_ORDER_UPDATE_ATTEMPTS; attempt++) {
+      const order = await this.prisma.order.findUnique({ where: { id } });
+      if (!order) throw new NotFoundError('Order not found');
+      if (data.status && !canTransitionOrder(order.status, data.status)) {
+        throw new InvalidOrderTransitionError(order.status, data.status);
+      }
+
+      // Only apply if the status is still the one we validated against
+      const { count } = await this.prisma.order.updateMany({
+        where: { id, status: order.status },
+        data,
+      });
+      if (count > 0) {
+        return this.prisma.order.findUnique({ where: { id } });
+      }
+    }
+    throw new QuantishError('Order is being updated concurrently, try again', 'ORDER_CONFLICT', 409, { orderId: id });
   }
 
-  async listOrders(userId: string, filters?: OrderFilters): Promise<Order[]> {
+  async listOrders(userId: string, filters: OrderFilters = {}): Promise<Order[]> {
+    const direction = filters.sort === 'asc' ? 'asc' : 'desc';
+    const beyond = direction === 'asc' ? 'gt' : 'lt';
+
     return this.prisma.order.findMany({
       where: {
         userId,
-        ...(filters?.status && { status: filters.status }),
-        ...(filters?.side && { side: filters.side }),
-        ...(filters?.conditionId && { conditionId: filters.conditionId }),
+        ...(filters.status !== undefined && {
+          status: Array.isArray(filters.status) ? { in: filters.status } : filters.status,
+        }),
+        ...(filters.side && { side: filters.side }),
+        ...(filters.type && { type: filters.type }),
+        ...(filters.conditionId && { conditionId: filters.conditionId }),
+        ...(filters.tokenId && { tokenId: filters.tokenId }),
+        ...((filters.createdAfter || filters.createdBefore) && {
+          createdAt: {
+            ...(filters.createdAfter && { gte: filters.createdAfter }),
+            ...(filters.createdBefore && { lt: filters.createdBefore }),
+          },
+        }),
+        ...(filters.after && {
+          OR: [
+            { createdAt: { [beyond]: filters.after.createdAt } },
+            { createdAt: filters.after.createdAt, id: { [beyond]: filters.after.id } },
+          ],
+        }),
       },
-      orderBy: { createdAt: 'desc' },
-      take: filters?.limit || 100,
-      skip: filters?.offset || 0,
+      orderBy: [{ createdAt: direction }, { id: direction }],
+      ...(filters.limit !== undefined && { take: filters.limit }),
+      skip: filters.offset || 0,
+    });
+  }
+
+  async listExpiredOrders(before: Date, limit: number): Promise<Order[]> {
+    const expirable = (Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[])
+      .filter(status => ORDER_STATUS_TRANSITIONS[status].includes('EXPIRED'));
+
+    return this.prisma.order.findMany({
+      where: {
+        type: 'GTD',
+        status: { in: expirable },
+        expiresAt: { lte: before },
+      },
+      orderBy: [{ expiresAt: 'asc' }, { id: 'asc' }],
+      take: limit,
+    });
+  }
+
+  // ============================================
+  // Fill Operations
+  // ============================================
+
+  async createFill(data: CreateFillInput): Promise<CreateFillResult> {
+    // Serializable so concurrent fills for one order cannot both miss each other's size
+    return this.prisma.$transaction(async (tx: any) => {
+      const order = await tx.order.findUnique({ where: { id: data.orderId } });
+      if (!order) throw new NotFoundError('Order not found');
+
+      const existing = await tx.fill.findUnique({
+        where: { orderId_tradeId: { orderId: data.orderId, tradeId: data.tradeId } },
+      });
+      if (existing) {
+        return { fill: existing, order, created: false };
+      }
+
+      const { _sum } = await tx.fill.aggregate({
+        where: { orderId: data.orderId },
+        _sum: { size: true },
+      });
+      const filledSize = (_sum.size ?? 0) + data.size;
+      const status = orderStatusAfterFill(order, filledSize);
+
+      const fill = await tx.fill.create({
+        data: {
+          orderId: order.id,
+          userId: order.userId,
+          tradeId: data.tradeId,
+          conditionId: order.conditionId,
+          tokenId: order.tokenId,
+          side: order.side,
+          price: data.price,
+          size: data.size,
+          fee: data.fee ?? 0,
+          filledAt: data.filledAt ?? new Date(),
+        },
+      });
+      const updated = await tx.order.update({
+        where: { id: order.id },
+        data: { filledSize, status },
+      });
+
+      return { fill, order: updated, created: true };
+    }, { isolationLevel: 'Serializable' });
+  }
+
+  async listFills(userId: string, filters: FillFilters = {}): Promise<Fill[]> {
+    return this.prisma.fill.findMany({
+      where: {
+        userId,
+        ...(filters.orderId && { orderId: filters.orderId }),
+        ...(filters.tokenId && { tokenId: filters.tokenId }),
+        ...(filters.filledAfter && { filledAt: { gte: filters.filledAfter } }),
+      },
+      orderBy: [{ filledAt: 'asc' }, { id: 'asc' }],
     });
   }
 
@@ -196,10 +367,16 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
         lastSyncedAt: new Date(),
       },
       update: {
+        outcome: data.outcome,
         size: data.size,
+        avgPrice: data.avgPrice,
         currentPrice: data.currentPrice,
+        initialValue: data.initialValue,
         currentValue: data.currentValue,
         realizedPnl: data.realizedPnl,
+        marketTitle: data.marketTitle,
+        marketSlug: data.marketSlug,
+        negativeRisk: data.negativeRisk,
         redeemable: data.redeemable,
         mergeable: data.mergeable,
         lastSyncedAt: new Date(),
@@ -222,6 +399,28 @@ export class PostgresAdapter extends BaseDatabaseAdapter {
     return this.prisma.transaction.create({ data });
   }
 
+  async updateTransaction(id: string, data: UpdateTransactionInput): Promise<Transaction> {
+    return this.prisma.transaction.update({
+      where: { id },
+      data,
+    });
+  }
+
+  async listTransactions(userId: string, filters: TransactionFilters = {}): Promise<Transaction[]> {
+    return this.prisma.transaction.findMany({
+      where: {
+        userId,
+        ...(filters.type !== undefined && {
+          type: Array.isArray(filters.type) ? { in: filters.type } : filters.type,
+        }),
+        ...(filters.status !== undefined && {
+          status: Array.isArray(filters.status) ? { in: filters.status } : filters.status,
+        }),
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+
   // ============================================
   // Activity Logging
   // ============================================
@@ -0,0 +1,22 @@
+/**
+ * Server Context
+ *
+ * Shared dependencies handed to route handlers and services
+ */
+
+import type { ethers } from 'ethers';
+import type { DatabaseAdapter } from '@quantish/types';
+import type { KeyVault, RelayerClient, ClobClient } from '@quantish/core';
+
+export interface ServerContext {
+  /** Database adapter */
+  database: DatabaseAdapter;
+  /** Key vault for user private keys */
+  keyVault: KeyVault;
+  /** Relayer for gasless Safe transactions */
+  relayer: RelayerClient;
+  /** Polymarket CLOB client */
+  clob: ClobClient;
+  /** Polygon JSON-RPC provider for on-chain reads */
+  provider: ethers.providers.Provider;
+}
@@ -21,28 +21,153 @@
  */
 
 import express, { Express, Request, Response, NextFunction } from 'express';
-import type { ServerConfig, DatabaseAdapter } from '@quantish/types';
-import { KeyVault, verifyHmacSignature, hashApiKey } from '@quantish/core';
+import { ethers } from 'ethers';
+import {
+  QuantishError,
+  type ServerConfig,
+  type DatabaseAdapter,
+  type EncryptionConfig,
+  type RiskConfig,
+} from '@quantish/types';
+import {
+  KeyVault,
+  RelayerClient,
+  ClobClient,
+  POLYMARKET_RELAYER,
+  POLYMARKET_CLOB,
+  verifyHmacSignature,
+  hashApiKey,
+} from '@quantish/core';
+import type { ServerContext } from './context';
+import {
+  createWalletRouter,
+  createAdminRouter,
+  createKeysRouter,
+  createTradeRouter,
+  createPositionsRouter,
+  createMarketsRouter,
+} from './routes';
+import { BalanceService } from './services/balances';
+import { ClobExchange, type Exchange } from './services/exchange';
+import { ClobCredentialStore } from './services/clob-credentials';
+import { PaperExchange } from './services/paper-exchange';
+import { FileBookSource, type OrderBookSource } from './services/paper-books';
+import {
+  CachedMarketDataProvider,
+  FileMarketDataProvider,
+  GammaMarketDataProvider,
+  type MarketDataProvider,
+} from './services/market-data';
+import { ReconciliationWorker, type ReconcileUserResult } from './services/reconciliation';
+import { OrderExpiryScheduler } from './services/order-expiry';
+import { RiskEngine } from './services/risk';
+import { PositionAccounting, type CostBasis, type PositionAudit } from './services/positions';
+import { provisionUser } from './services/users';
+import { rotateUserKeys } from './services/key-rotation';
 
 // Re-export adapters
 export * from './adapters';
 
 // Re-export types
 export type { ServerConfig, DatabaseAdapter } from '@quantish/types';
+export type { MarketDataProvider, MarketFilters } from './services/market-data';
 
 export interface QuantishServerConfig {
   /** Database adapter */
   database: DatabaseAdapter;
-  /** Encryption configuration */
-  encryption: {
-    masterKey: string;
-  };
+  /** Encryption configuration (master key, or envelope encryption via keyProvider) */
+  encryption: EncryptionConfig;
   /** Optional: Builder credentials for Polymarket */
   builder?: {
     apiKey: string;
     apiSecret: string;
     passphrase?: string;
   };
+  /** Optional: Relayer settings (default: Polymarket relayer) */
+  relayer?: {
+    endpoint: string;
+    timeout?: number;
+  };
+  /** Optional: CLOB settings (default: Polymarket CLOB) */
+  clob?: {
+    endpoint: string;
+    chainId?: number;
+    timeout?: number;
+  };
+  /** Optional: trading defaults */
+  trading?: {
+    /** Max slippage from the best price for /v1/trade/buy and /sell (default: 0.05) */
+    maxSlippage?: number;
+  };
+  /** Optional: pre-trade risk limits, global and per user */
+  risk?: RiskConfig;
+  /** Optional: paper mode, trading against a simulated exchange with virtual USDC */
+  paper?: {
+    /** Run in paper mode (default: true when this section is present) */
+    enabled?: boolean;
+    /** Virtual USDC for new paper users (default: 10000) */
+    initialBalance?: number;
+    /** Replay order books from this JSON or JSON-lines file instead of the live CLOB */
+    bookFile?: string;
+    /** Replay speed multiplier for bookFile (default: 1) */
+    replaySpeed?: number;
+  };
+  /** Optional: market data for /v1/markets (default: Polymarket Gamma and CLOB) */
+  markets?: {
+    /** Provider instance, takes precedence over fixtureFile and gammaEndpoint */
+    provider?: MarketDataProvider;
+    /** Serve markets and books from this JSON fixture file instead */
+    fixtureFile?: string;
+    /** Gamma API URL */
+    gammaEndpoint?: string;
+    /** Gamma request timeout in ms (default: 10000) */
+    timeout?: number;
+    /** Market cache TTL in ms (default: 30000) */
+    cacheTtl?: number;
+    /** Order book cache TTL in ms (default: 1000) */
+    bookCacheTtl?: number;
+    /** Most market, listing and book answers cached at once (default: 1000) */
+    cacheMaxEntries?: number;
+  };
+  /** Optional: how positions are derived from fills */
+  positions?: {
+    /** Cost basis for avgPrice and realizedPnl (default: 'average') */
+    costBasis?: CostBasis;
+  };
+  /** Optional: background reconciliation of orders against the CLOB */
+  reconciliation?: {
+    /** Run the worker while the server is listening (default: true) */
+    enabled?: boolean;
+    /** Time between runs in ms (default: 60000) */
+    intervalMs?: number;
+    /** Users reconciled in parallel (default: 4) */
+    concurrency?: number;
+  };
+  /** Optional: expiry of GTD orders past their expiration */
+  orderExpiry?: {
+    /** Run the scheduler while the server is listening (default: true) */
+    enabled?: boolean;
+    /** Time between runs in ms (default: 10000) */
+    intervalMs?: number;
+  };
+  /** Optional: Polygon chain access (default: public Polygon RPC) */
+  chain?: {
+    /** Provider instance, takes precedence over rpcUrl */
+    provider?: ethers.providers.Provider;
+    /** JSON-RPC URL */
+    rpcUrl?: string;
+    /** Balance cache TTL in ms (default: 5000) */
+    balanceCacheTtl?: number;
+  };
+  /** Optional: API key behaviour */
+  apiKeys?: {
+    /** Minimum interval between lastUsedAt writes per key in ms (default: 60000) */
+    lastUsedThrottleMs?: number;
+  };
+  /** Optional: Enables /admin routes, authenticated with X-Quantish-Admin-Key */
+  admin?: {
+    apiKey: string;
+  };
   /** Server port (default: 3000) */
   port?: number;
   /** Enable CORS (default: true) */
@@ -62,8 +187,18 @@ export interface QuantishServer {
   getDatabase: () => DatabaseAdapter;
   /** Get the key vault */
   getKeyVault: () => KeyVault;
+  /** Reconcile one user's orders against the CLOB now */
+  reconcileUser: (userId: string) => Promise<ReconcileUserResult>;
+  /** Rebuild one user's positions from their fills; a dry run only reports */
+  rebuildPositions: (userId: string, options?: { dryRun?: boolean }) => Promise<PositionAudit>;
 }
 
+/** Virtual USDC for new paper users when paper.initialBalance is not set */
+const DEFAULT_PAPER_BALANCE = 10000;
+
+/** Public Polygon RPC used when no provider or rpcUrl is configured */
+const DEFAULT_POLYGON_RPC = 'https://polygon-rpc.com';
+
 /**
  * Create a Quantish server instance
  */
@@ -73,7 +208,54 @@ export async function createServer(
   const { database, encryption, builder, cors = true, logging = false } = config;
 
   // Initialize key vault
-  const keyVault = new KeyVault({ masterKey: encryption.masterKey });
+  const keyVault = new KeyVault(encryption);
+
+  // Initialize Polymarket clients
+  const relayer = new RelayerClient({
+    endpoint: config.relayer?.endpoint || POLYMARKET_RELAYER,
+    timeout: config.relayer?.timeout,
+  });
+  const clob = new ClobClient({
+    endpoint: config.clob?.endpoint || POLYMARKET_CLOB,
+    chainId: config.clob?.chainId,
+    timeout: config.clob?.timeout,
+  });
+
+  // Polygon provider for on-chain reads
+  const provider = config.chain?.provider
+    || new ethers.providers.StaticJsonRpcProvider(config.chain?.rpcUrl || DEFAULT_POLYGON_RPC, 137);
+
+  const ctx: ServerContext = { database, keyVault, relayer, clob, provider };
+  const balances = new BalanceService(ctx, config.chain?.balanceCacheTtl);
+  const accounting = new PositionAccounting(ctx, config.positions?.costBasis);
+
+  // Paper mode swaps the CLOB for the simulated exchange
+  const paper = config.paper && config.paper.enabled !== false ? config.paper : undefined;
+  const books: OrderBookSource = paper?.bookFile
+    ? new FileBookSource(paper.bookFile, { speed: paper.replaySpeed })
+    : clob;
+  const credentials = new ClobCredentialStore(ctx);
+  const exchange: Exchange = paper
+    ? new PaperExchange(ctx, books, accounting)
+    : new ClobExchange(ctx, credentials);
+  const reconciliation = new ReconciliationWorker(ctx, exchange, accounting, config.reconciliation);
+  const orderExpiry = new OrderExpiryScheduler(ctx, exchange, config.orderExpiry);
+  const risk = new RiskEngine(ctx, exchange, config.risk);
+
+  // Market data, with the same books the exchange trades against
+  const marketData = new CachedMarketDataProvider(
+    config.markets?.provider
+      || (config.markets?.fixtureFile
+        ? new FileMarketDataProvider(config.markets.fixtureFile)
+        : new GammaMarketDataProvider({
+          endpoint: config.markets?.gammaEndpoint,
+          books,
+          timeout: config.markets?.timeout,
+        })),
+    config.markets?.cacheTtl,
+    config.markets?.bookCacheTtl,
+    config.markets?.cacheMaxEntries
+  );
 
   // Connect to database
   await database.connect();
@@ -88,7 +270,7 @@ export async function createServer(
     app.use((_req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.header('Access-Control-Allow-Headers', 'Content-Type, X-Quantish-Key, X-Quantish-Timestamp, X-Quantish-Signature');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, X-Quantish-Key, X-Quantish-Timestamp, X-Quantish-Signature, X-Quantish-Admin-Key');
       next();
     });
   }
@@ -100,6 +282,10 @@ export async function createServer(
     });
   }
 
+  // Time of the most recent lastUsedAt write per API key id (ms)
+  const keyLastUsed = new Map<string, number>();
+  const lastUsedThrottle = config.apiKeys?.lastUsedThrottleMs ?? 60000;
+
   // Authentication middleware
   const authenticate = async (req: Request, res: Response, next: NextFunction) => {
     const apiKey = req.headers['x-quantish-key'] as string;
@@ -118,6 +304,18 @@ export async function createServer(
       return res.status(401).json({ error: 'Invalid API key' });
     }
 
+    const now = new Date();
+    if (keyRecord.expiresAt && new Date(keyRecord.expiresAt) <= now) {
+      return res.status(401).json({ error: 'API key expired' });
+    }
+
+    // Paper and live users never share a server
+    if (!!keyRecord.user.paper !== !!paper) {
+      return res.status(403).json({
+        error: paper ? 'Live users cannot use a paper-mode server' : 'Paper users can only use a paper-mode server',
+      });
+    }
+
     // Verify HMAC signature if secret exists
     if (keyRecord.apiSecret && signature) {
       const result = verifyHmacSignature(
@@ -134,11 +332,26 @@ export async function createServer(
       if (!result.valid) {
         return res.status(401).json({ error: 'Invalid signature', reason: result.reason });
       }
+
+      (req as any).signatureVerified = true;
+    }
+
+    // Record usage, at most once per throttle window per key
+    const lastTouched = Math.max(
+      keyLastUsed.get(keyRecord.id) || 0,
+      keyRecord.lastUsedAt ? new Date(keyRecord.lastUsedAt).getTime() : 0
+    );
+    if (now.getTime() - lastTouched >= lastUsedThrottle) {
+      keyLastUsed.set(keyRecord.id, now.getTime());
+      database.touchApiKey(keyRecord.id, now).catch((error) => {
+        console.error('Failed to update API key lastUsedAt:', error);
+      });
     }
 
     // Attach user to request
     (req as any).user = keyRecord.user;
     (req as any).userId = keyRecord.user.id;
+    (req as any).apiKeyId = keyRecord.id;
 
     next();
   };
@@ -148,31 +361,42 @@ export async function createServer(
     res.json({ status: 'ok', version: '0.1.0' });
   });
 
+  // Admin routes (admin key, not user API keys)
+  if (config.admin?.apiKey) {
+    app.use('/admin', createAdminRouter(
+      ctx,
+      config.admin.apiKey,
+      paper ? { balance: paper.initialBalance ?? DEFAULT_PAPER_BALANCE } : undefined
+    ));
+  }
+
   // API routes (all require authentication)
   app.use('/v1', authenticate);
 
   // Wallet routes
-  app.get('/v1/wallet/status', async (req, res) => {
-    try {
-      const user = (req as any).user;
-      res.json({
-        isSetup: user.safeDeployed && user.clobApiKeyCreated && user.approvalsGranted,
-        eoaAddress: user.eoaAddress,
-        safeAddress: user.safeAddress,
-        safeDeployed: user.safeDeployed,
-        clobApiKeyCreated: user.clobApiKeyCreated,
-        approvalsGranted: user.approvalsGranted,
-      });
-    } catch (error) {
-      res.status(500).json({ error: String(error) });
-    }
-  });
+  app.use('/v1/wallet', createWalletRouter(ctx, balances, credentials));
+
+  // API key routes
+  app.use('/v1/keys', createKeysRouter(ctx));
+
+  // Trading routes
+  app.use('/v1/trade', createTradeRouter(ctx, exchange, risk, reconciliation, config.trading));
+
+  // Position routes
+  app.use('/v1/positions', createPositionsRouter(ctx, accounting));
 
-  // TODO: Add more routes (wallet/setup, trade, positions, markets)
-  // These would mirror the production MCP server functionality
+  // Market routes
+  app.use('/v1/markets', createMarketsRouter(marketData));
 
   // Error handler
   app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (err instanceof QuantishError) {
+      return res.status(err.statusCode).json({
+        error: err.message,
+        code: err.code,
+        ...(err.details && { details: err.details }),
+      });
+    }
     console.error('Server error:', err);
     res.status(500).json({ error: err.message });
   });
@@ -187,12 +411,19 @@ export async function createServer(
       return new Promise((resolve) => {
         httpServer = app.listen(port, () => {
           console.log(`🚀 Quantish server running on http://localhost:${port}`);
+          if (config.reconciliation?.enabled !== false) {
+            reconciliation.start();
+          }
+          if (config.orderExpiry?.enabled !== false) {
+            orderExpiry.start();
+          }
           resolve();
         });
       });
     },
 
     async close(): Promise<void> {
+      await Promise.all([reconciliation.stop(), orderExpiry.stop()]);
       if (httpServer) {
         await new Promise<void>((resolve) => httpServer.close(resolve));
       }
@@ -201,6 +432,8 @@ export async function createServer(
 
     getDatabase: () => database,
     getKeyVault: () => keyVault,
+    reconcileUser: (userId) => reconciliation.reconcileUser(userId),
+    rebuildPositions: (userId, options) => accounting.rebuild(userId, options),
   };
 }
 
@@ -243,6 +476,119 @@ Then run: npx quantish serve
       // TODO: Load config and start server
       break;
 
+    case 'users': {
+      const subcommand = args[1];
+      const externalId = getFlag(args, '--external-id');
+
+      if (subcommand !== 'create' || !externalId) {
+        console.error('Usage: npx quantish users create --external-id <id> [--key-name <name>] [--paper [--balance <usdc>]]');
+        process.exitCode = 1;
+        break;
+      }
+
+      const balance = Number(getFlag(args, '--balance') ?? DEFAULT_PAPER_BALANCE);
+      if (args.includes('--paper') && !(balance >= 0)) {
+        console.error('--balance must be a non-negative number');
+        process.exitCode = 1;
+        break;
+      }
+
+      const { database, keyVault } = await createCliContext();
+      try {
+        const result = await provisionUser({ database, keyVault }, {
+          externalId,
+          keyName: getFlag(args, '--key-name'),
+          paper: args.includes('--paper') ? { balance } : undefined,
+        });
+
+        if (!result.credentials) {
+          console.log(`ℹ️  User already exists: ${result.user.id} (${result.user.eoaAddress})`);
+          break;
+        }
+
+        console.log(result.created
+          ? `✅ Created user ${result.user.id}`
+          : `✅ User already exists without an active API key, issued one: ${result.user.id}`);
+        console.log(`   EOA:        ${result.user.eoaAddress}`);
+        if (result.user.paper) {
+          console.log(`   Paper:      ${result.user.paperBalance} USDC`);
+        }
+        console.log(`   API key:    ${result.credentials.key}`);
+        console.log(`   API secret: ${result.credentials.secret}`);
+        console.log('Save the API key and secret now - they will not be shown again.');
+      } finally {
+        await database.disconnect();
+      }
+      break;
+    }
+
+    case 'rotate-key': {
+      const batchSize = parseInt(getFlag(args, '--batch-size') || '100', 10);
+      const { database, keyVault } = await createCliContext();
+      try {
+        console.log(keyVault.currentKeyVersion !== undefined
+          ? `🔐 Re-encrypting user keys under master key version ${keyVault.currentKeyVersion}...`
+          : '🔐 Re-encrypting user keys with envelope encryption...');
+        const result = await rotateUserKeys(database, keyVault, {
+          batchSize,
+          afterId: getFlag(args, '--after'),
+          onProgress: (progress) => {
+            console.log(`   scanned ${progress.scanned}, rotated ${progress.rotated}, skipped ${progress.skipped}, failed ${progress.failed.length}`);
+          },
+        });
+
+        for (const failure of result.failed) {
+          console.error(`❌ ${failure.userId}: ${failure.error}`);
+        }
+        if (result.failed.length > 0) {
+          process.exitCode = 1;
+        }
+        console.log(`✅ Done: ${result.rotated} rotated, ${result.skipped} already current, ${result.failed.length} failed`);
+      } finally {
+        await database.disconnect();
+      }
+      break;
+    }
+
+    case 'verify-address': {
+      const { deriveSafeAddress, deriveProxyWalletAddress, verifyWalletAddress, checkDerivationFixtures } =
+        await import('@quantish/core');
+      const owner = getFlag(args, '--owner');
+      const fixturesFile = getFlag(args, '--fixtures');
+
+      if (fixturesFile) {
+        const fs = await import('fs');
+        const fixtures = JSON.parse(fs.readFileSync(fixturesFile, 'utf8'));
+        const mismatches = checkDerivationFixtures(fixtures);
+        for (const m of mismatches) {
+          console.error(`❌ ${m.type} ${m.owner}: expected ${m.address}, derived ${m.derived}`);
+        }
+        console.log(`${fixtures.length - mismatches.length}/${fixtures.length} fixtures match`);
+        if (mismatches.length > 0) process.exitCode = 1;
+        break;
+      }
+
+      if (!owner || !ethers.utils.isAddress(owner)) {
+        console.error('Usage: npx quantish verify-address --owner <address> [--rpc-url <url>] | --fixtures <file.json>');
+        process.exitCode = 1;
+        break;
+      }
+
+      console.log(`Safe:         ${deriveSafeAddress(owner)}`);
+      console.log(`Proxy wallet: ${deriveProxyWalletAddress(owner)}`);
+
+      const rpcUrl = getFlag(args, '--rpc-url') || process.env.POLYGON_RPC_URL;
+      if (rpcUrl) {
+        const provider = new ethers.providers.StaticJsonRpcProvider(rpcUrl, 137);
+        const result = await verifyWalletAddress(provider, owner);
+        console.log(result.verified
+          ? `✅ Safe factory agrees: ${result.onChain}`
+          : `❌ Safe factory returned ${result.onChain}`);
+        if (!result.verified) process.exitCode = 1;
+      }
+      break;
+    }
+
     default:
       console.log(`
 Quantish Server CLI
@@ -251,15 +597,71 @@ Commands:
   init          Create configuration file
   generate-key  Generate a new master encryption key
   serve         Start the server
+  users create  Create a user with a wallet and API key
+  rotate-key    Re-encrypt all user keys under the current master key
+  verify-address  Derive Safe/proxy wallet addresses and check them
 
 Usage:
   npx quantish init
   npx quantish generate-key
   npx quantish serve
+  npx quantish users create --external-id <id> [--key-name <name>] [--paper [--balance <usdc>]]
+  npx quantish rotate-key [--batch-size 100] [--after <userId>]
+  npx quantish verify-address --owner <address> [--rpc-url <url>]
+  npx quantish verify-address --fixtures <file.json>
       `);
   }
 }
 
+/**
+ * Read a `--flag value` pair from CLI args
+ */
+function getFlag(args: string[], flag: string): string | undefined {
+  const index = args.indexOf(flag);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Connect to the database and key vault from environment variables
+ */
+async function createCliContext(): Promise<{ database: DatabaseAdapter; keyVault: KeyVault }> {
+  const connectionString = process.env.DATABASE_URL;
+  const masterKey = process.env.QUANTISH_MASTER_KEY;
+  const kekFile = process.env.QUANTISH_KEK_FILE;
+  if (!connectionString || (!masterKey && !kekFile)) {
+    throw new Error('DATABASE_URL and QUANTISH_MASTER_KEY (or QUANTISH_KEK_FILE) must be set');
+  }
+
+  const keyVault = new KeyVault({
+    masterKey,
+    keyProvider: kekFile ? { type: 'local', keyFile: kekFile } : undefined,
+    keyVersion: process.env.QUANTISH_MASTER_KEY_VERSION
+      ? parseInt(process.env.QUANTISH_MASTER_KEY_VERSION, 10)
+      : undefined,
+    previousKeys: parsePreviousKeys(process.env.QUANTISH_PREVIOUS_MASTER_KEYS),
+  });
+
+  const { PostgresAdapter } = await import('./adapters');
+  const database = new PostgresAdapter({ connectionString });
+  await database.connect();
+
+  return { database, keyVault };
+}
+
+/**
+ * Parse retired master keys from `version:key,version:key`
+ */
+function parsePreviousKeys(value: string | undefined): Array<{ version: number; masterKey: string }> {
+  if (!value) return [];
+  return value.split(',').map((entry) => {
+    const [version, masterKey] = entry.trim().split(':');
+    if (!version || !masterKey) {
+      throw new Error('QUANTISH_PREVIOUS_MASTER_KEYS must look like "1:<key>,2:<key>"');
+    }
+    return { version: parseInt(version, 10), masterKey };
+  });
+}
+
 // Run CLI if executed directly
 if (require.main === module) {
   cli().catch(console.error);
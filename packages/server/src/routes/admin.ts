@@ -0,0 +1,65 @@
+/**
+ * Admin routes
+ *
+ * POST /admin/users - Provision a user (wallet + first API key)
+ *
+ * Authenticated with the admin key from server config via X-Quantish-Admin-Key.
+ * A paper-mode server provisions paper users.
+ */
+
+import * as crypto from 'crypto';
+import { Router } from 'express';
+import { AuthenticationError, ValidationError } from '@quantish/types';
+import type { ServerContext } from '../context';
+import { provisionUser, toPublicUser } from '../services/users';
+import { asyncHandler } from './utils';
+
+/**
+ * Constant-time comparison of the presented admin key
+ */
+function isValidAdminKey(presented: string | undefined, expected: string): boolean {
+  if (!presented) return false;
+  const a = crypto.createHash('sha256').update(presented).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+export function createAdminRouter(
+  ctx: ServerContext,
+  adminKey: string,
+  paper?: { balance: number }
+): Router {
+  const router = Router();
+
+  router.use((req, _res, next) => {
+    const presented = req.headers['x-quantish-admin-key'] as string | undefined;
+    if (!isValidAdminKey(presented, adminKey)) {
+      return next(new AuthenticationError('Invalid admin key'));
+    }
+    next();
+  });
+
+  router.post('/users', asyncHandler(async (req, res) => {
+    const { externalId, keyName } = req.body || {};
+    if (typeof externalId !== 'string' || externalId.trim() === '') {
+      throw new ValidationError('`externalId` is required');
+    }
+    if (keyName !== undefined && typeof keyName !== 'string') {
+      throw new ValidationError('`keyName` must be a string');
+    }
+
+    const result = await provisionUser(ctx, { externalId: externalId.trim(), keyName, paper });
+
+    res.status(result.created ? 201 : 200).json({
+      user: toPublicUser(result.user),
+      created: result.created,
+      ...(result.credentials && {
+        apiKey: result.credentials.key,
+        apiSecret: result.credentials.secret,
+        keyId: result.credentials.apiKey.id,
+      }),
+    });
+  }));
+
+  return router;
+}
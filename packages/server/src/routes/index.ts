@@ -0,0 +1,10 @@
+/**
+ * API Routes
+ */
+
+export { createWalletRouter } from './wallet';
+export { createAdminRouter } from './admin';
+export { createKeysRouter } from './keys';
+export { createTradeRouter } from './trade';
+export { createPositionsRouter } from './positions';
+export { createMarketsRouter } from './markets';
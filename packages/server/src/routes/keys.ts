@@ -0,0 +1,92 @@
+/**
+ * API key routes
+ *
+ * GET    /v1/keys     - List the caller's active API keys
+ * POST   /v1/keys     - Create a new API key (secret returned once)
+ * DELETE /v1/keys/:id - Revoke an API key
+ */
+
+import { Router } from 'express';
+import { NotFoundError, ValidationError } from '@quantish/types';
+import type { ServerContext } from '../context';
+import { issueApiKey, toPublicApiKey } from '../services/users';
+import { asyncHandler, getUser } from './utils';
+
+/**
+ * Parse an optional expiry date from the request body
+ */
+function parseExpiresAt(value: unknown): Date | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new ValidationError('`expiresAt` must be an ISO 8601 date', { expiresAt: value });
+  }
+  if (date.getTime() <= Date.now()) {
+    throw new ValidationError('`expiresAt` must be in the future', { expiresAt: value });
+  }
+  return date;
+}
+
+export function createKeysRouter(ctx: ServerContext): Router {
+  const router = Router();
+  const { database } = ctx;
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const keys = await database.listApiKeys(user.id);
+    res.json({ keys: keys.map(toPublicApiKey) });
+  }));
+
+  router.post('/', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const { name, expiresAt } = req.body || {};
+    if (name !== undefined && typeof name !== 'string') {
+      throw new ValidationError('`name` must be a string');
+    }
+
+    const issued = await issueApiKey(database, user.id, {
+      name,
+      expiresAt: parseExpiresAt(expiresAt),
+    });
+
+    await database.logActivity({
+      userId: user.id,
+      action: 'apiKey.create',
+      resource: 'apiKey',
+      resourceId: issued.apiKey.id,
+      details: { keyPrefix: issued.apiKey.keyPrefix, expiresAt: issued.apiKey.expiresAt ?? null },
+      success: true,
+    });
+
+    res.status(201).json({
+      key: toPublicApiKey(issued.apiKey),
+      apiKey: issued.key,
+      apiSecret: issued.secret,
+    });
+  }));
+
+  router.delete('/:id', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const keys = await database.listApiKeys(user.id);
+    const key = keys.find(k => k.id === req.params.id);
+    if (!key) {
+      throw new NotFoundError('API key not found');
+    }
+
+    await database.revokeApiKey(key.id);
+    await database.logActivity({
+      userId: user.id,
+      action: 'apiKey.revoke',
+      resource: 'apiKey',
+      resourceId: key.id,
+      details: { keyPrefix: key.keyPrefix },
+      success: true,
+    });
+
+    res.json({ id: key.id, revoked: true });
+  }));
+
+  return router;
+}
@@ -0,0 +1,50 @@
+/**
+ * Market routes
+ *
+ * GET /v1/markets                - Search markets by text, status, end date and volume
+ * GET /v1/markets/:conditionId   - Get a market
+ * GET /v1/markets/:tokenId/book  - Get a token's order book
+ */
+
+import { Router } from 'express';
+import { NotFoundError, ValidationError } from '@quantish/types';
+import { parseMarketQuery, type MarketDataProvider } from '../services/market-data';
+import { asyncHandler } from './utils';
+
+export function createMarketsRouter(marketData: MarketDataProvider): Router {
+  const router = Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const filters = parseMarketQuery(req.query);
+    const markets = await marketData.listMarkets(filters);
+    res.json({ markets, limit: filters.limit, offset: filters.offset });
+  }));
+
+  router.get('/:conditionId', asyncHandler(async (req, res) => {
+    const { conditionId } = req.params;
+    if (!/^0x[0-9a-fA-F]{64}$/.test(conditionId)) {
+      throw new ValidationError('`conditionId` must be a 32-byte hex string', { conditionId });
+    }
+
+    const market = await marketData.getMarket(conditionId.toLowerCase());
+    if (!market) {
+      throw new NotFoundError('Market not found');
+    }
+    res.json({ market });
+  }));
+
+  router.get('/:tokenId/book', asyncHandler(async (req, res) => {
+    const { tokenId } = req.params;
+    if (!/^\d+$/.test(tokenId)) {
+      throw new ValidationError('`tokenId` must be a decimal string', { tokenId });
+    }
+
+    const book = await marketData.getOrderBook(tokenId);
+    if (!book) {
+      throw new NotFoundError('Order book not found');
+    }
+    res.json({ book });
+  }));
+
+  return router;
+}
@@ -0,0 +1,97 @@
+/**
+ * Position routes
+ *
+ * GET  /v1/positions         - List positions
+ * POST /v1/positions/rebuild - Re-derive positions from the full fill history
+ * GET  /v1/positions/claimable - List resolved markets the Safe can redeem
+ * POST /v1/positions/claim   - Redeem resolved markets
+ * POST /v1/positions/split   - Split USDC into complete sets of outcome shares
+ * POST /v1/positions/merge   - Merge complete sets back into USDC
+ * POST /v1/positions/convert/preview - Preview a neg-risk NO conversion
+ * POST /v1/positions/convert - Convert neg-risk NO shares into USDC and YES shares
+ *
+ * Paper users hold no on-chain shares, so they have nothing to claim, split,
+ * merge or convert.
+ */
+
+import { Router } from 'express';
+import { ValidationError } from '@quantish/types';
+import type { ServerContext } from '../context';
+import type { PositionAccounting } from '../services/positions';
+import { ClaimService, parseClaimInput } from '../services/claims';
+import { CompleteSetService, parseCompleteSetInput } from '../services/complete-sets';
+import { ConversionService, parseConversionInput } from '../services/conversions';
+import { asyncHandler, getUser, requireLiveUser } from './utils';
+
+export function createPositionsRouter(ctx: ServerContext, accounting: PositionAccounting): Router {
+  const router = Router();
+  const claims = new ClaimService(ctx, accounting);
+  const completeSets = new CompleteSetService(ctx, accounting);
+  const conversions = new ConversionService(ctx, accounting);
+
+  router.get('/', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const positions = await ctx.database.getPositions(user.id);
+    res.json({ positions });
+  }));
+
+  router.post('/rebuild', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const { dryRun = false } = req.body || {};
+    if (typeof dryRun !== 'boolean') {
+      throw new ValidationError('`dryRun` must be a boolean', { dryRun });
+    }
+
+    const audit = await accounting.rebuild(user.id, { dryRun });
+    res.json(audit);
+  }));
+
+  router.get('/claimable', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const claimable = await claims.listClaimable(user.id);
+    res.json({ claimable });
+  }));
+
+  router.post('/claim', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const input = parseClaimInput(req.body);
+    const result = await claims.claim(user.id, input);
+    res.json(result);
+  }));
+
+  router.post('/split', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const input = parseCompleteSetInput(req.body, 'split');
+    const result = await completeSets.split(user.id, input);
+    res.json(result);
+  }));
+
+  router.post('/merge', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const input = parseCompleteSetInput(req.body, 'merge');
+    const result = await completeSets.merge(user.id, input);
+    res.json(result);
+  }));
+
+  router.post('/convert/preview', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const input = parseConversionInput(req.body);
+    const preview = await conversions.preview(user.id, input);
+    res.json(preview);
+  }));
+
+  router.post('/convert', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const input = parseConversionInput(req.body);
+    const result = await conversions.convert(user.id, input);
+    res.json(result);
+  }));
+
+  return router;
+}
@@ -0,0 +1,129 @@
+/**
+ * Trading routes
+ *
+ * POST   /v1/trade/buy        - Buy shares for a USDC amount or share count
+ * POST   /v1/trade/sell       - Sell shares for a USDC amount or share count
+ * POST   /v1/trade/order      - Sign and place an order on the CLOB
+ * POST   /v1/trade/orders/batch - Validate, sign and place several orders at once
+ * GET    /v1/trade/orders     - List orders (filters, cursor pagination)
+ * DELETE /v1/trade/orders/:id - Cancel one order
+ * DELETE /v1/trade/orders     - Cancel open orders for a conditionId and/or tokenId
+ * POST   /v1/trade/cancel-all - Cancel every open order
+ * POST   /v1/trade/reconcile  - Sync the caller's orders and fills with the CLOB now
+ * GET    /v1/trade/limits     - Risk limits that apply to the caller
+ */
+
+import { Router } from 'express';
+import { ValidationError, type OrderSide } from '@quantish/types';
+import type { ServerContext } from '../context';
+import { OrderService, parseOrderInput } from '../services/orders';
+import { MarketOrderService, parseMarketOrderInput } from '../services/market-orders';
+import { BatchOrderService, parseBatchOrderInput } from '../services/batch-orders';
+import type { Exchange } from '../services/exchange';
+import { OrderCancellationService, type CancelFilter } from '../services/cancellation';
+import { parseOrderQuery, queryOrders } from '../services/order-query';
+import type { ReconciliationWorker } from '../services/reconciliation';
+import type { RiskEngine } from '../services/risk';
+import { asyncHandler, getUser } from './utils';
+
+export interface TradeRouterOptions {
+  /** Default max slippage for buy/sell when the request sets none (default: 0.05) */
+  maxSlippage?: number;
+}
+
+/**
+ * Parse the market scope of a bulk cancel from the query string
+ */
+function parseCancelFilter(query: Record<string, unknown>): CancelFilter {
+  const { conditionId, tokenId } = query;
+
+  if (conditionId !== undefined && (typeof conditionId !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(conditionId))) {
+    throw new ValidationError('`conditionId` must be a 32-byte hex string', { conditionId });
+  }
+  if (tokenId !== undefined && (typeof tokenId !== 'string' || !/^\d+$/.test(tokenId))) {
+    throw new ValidationError('`tokenId` must be a decimal string', { tokenId });
+  }
+  if (conditionId === undefined && tokenId === undefined) {
+    throw new ValidationError('Provide `conditionId` and/or `tokenId`; use POST /v1/trade/cancel-all to cancel everything');
+  }
+
+  return {
+    conditionId: (conditionId as string | undefined)?.toLowerCase(),
+    tokenId: tokenId as string | undefined,
+  };
+}
+
+export function createTradeRouter(
+  ctx: ServerContext,
+  exchange: Exchange,
+  risk: RiskEngine,
+  reconciliation: ReconciliationWorker,
+  options: TradeRouterOptions = {}
+): Router {
+  const router = Router();
+  const orders = new OrderService(ctx, exchange, risk);
+  const cancellation = new OrderCancellationService(ctx, exchange);
+  const marketOrders = new MarketOrderService(exchange, orders);
+  const batchOrders = new BatchOrderService(ctx, exchange, orders, risk, cancellation);
+  const maxSlippage = options.maxSlippage ?? 0.05;
+
+  const marketOrder = (side: OrderSide) => asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const input = parseMarketOrderInput(req.body, side, maxSlippage);
+    const result = await marketOrders.execute(user.id, input);
+    res.status(201).json(result);
+  });
+
+  router.post('/buy', marketOrder('BUY'));
+  router.post('/sell', marketOrder('SELL'));
+
+  router.post('/order', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const input = parseOrderInput(req.body);
+    const result = await orders.placeOrder(user.id, input);
+    res.status(201).json(result);
+  }));
+
+  router.post('/orders/batch', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const input = parseBatchOrderInput(req.body);
+    const result = await batchOrders.placeOrders(user.id, input);
+    res.status(201).json(result);
+  }));
+
+  router.get('/orders', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const page = await queryOrders(ctx.database, user.id, parseOrderQuery(req.query));
+    res.json(page);
+  }));
+
+  router.delete('/orders/:id', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const result = await cancellation.cancelOrder(user.id, req.params.id);
+    res.json(result);
+  }));
+
+  router.delete('/orders', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const result = await cancellation.cancelOrders(user.id, parseCancelFilter(req.query));
+    res.json(result);
+  }));
+
+  router.post('/cancel-all', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const result = await cancellation.cancelOrders(user.id);
+    res.json(result);
+  }));
+
+  router.get('/limits', (req, res) => {
+    res.json(risk.limitsFor(getUser(req)));
+  });
+
+  router.post('/reconcile', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const result = await reconciliation.reconcileUser(user.id);
+    res.json(result);
+  }));
+
+  return router;
+}
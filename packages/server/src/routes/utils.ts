@@ -0,0 +1,33 @@
+/**
+ * Route helpers
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { QuantishError, type User } from '@quantish/types';
+
+/**
+ * Wrap an async handler so rejections reach the error middleware
+ */
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+}
+
+/**
+ * Get the authenticated user attached by the auth middleware
+ */
+export function getUser(req: Request): User {
+  return (req as any).user;
+}
+
+/**
+ * Reject on-chain wallet operations for paper users
+ */
+export function requireLiveUser(user: User): void {
+  if (user.paper) {
+    throw new QuantishError('Paper users have no on-chain wallet', 'PAPER_MODE', 409);
+  }
+}
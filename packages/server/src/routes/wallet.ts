@@ -0,0 +1,105 @@
+/**
+ * Wallet routes
+ *
+ * GET  /v1/wallet/status - Get wallet setup status
+ * POST /v1/wallet/setup  - Initialize wallet (Safe deployment, approvals)
+ * GET  /v1/wallet/approvals - Check trading approvals on chain
+ * GET  /v1/wallet/balances - Get USDC/MATIC balances
+ * POST /v1/wallet/transfer - Transfer USDC
+ * POST /v1/wallet/export/request - Get a one-time export confirmation token
+ * POST /v1/wallet/export   - Export the private key as an encrypted keystore
+ *
+ * Export routes only accept HMAC-signed requests. Paper users have no
+ * on-chain wallet to set up or move funds from; their balances are virtual.
+ */
+
+import { Router, type Request } from 'express';
+import { AuthenticationError, ValidationError } from '@quantish/types';
+import type { ServerContext } from '../context';
+import { WalletSetupPipeline, toWalletStatus } from '../services/wallet-setup';
+import type { BalanceService } from '../services/balances';
+import type { ClobCredentialStore } from '../services/clob-credentials';
+import { syncApprovals } from '../services/approvals';
+import { requireSafe } from '../services/safe-executor';
+import { parseTransferInput, transferUsdc } from '../services/transfer';
+import { KeyExportService } from '../services/key-export';
+import { asyncHandler, getUser, requireLiveUser } from './utils';
+
+/**
+ * Reject requests that were not HMAC-signed by the auth middleware
+ */
+function requireSignedRequest(req: Request): void {
+  if (!(req as any).signatureVerified) {
+    throw new AuthenticationError('This endpoint requires an HMAC-signed request');
+  }
+}
+
+export function createWalletRouter(
+  ctx: ServerContext,
+  balances: BalanceService,
+  credentials?: ClobCredentialStore
+): Router {
+  const router = Router();
+  const setup = new WalletSetupPipeline(ctx, credentials);
+  const keyExport = new KeyExportService(ctx);
+
+  router.get('/status', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    res.json(toWalletStatus(user));
+  }));
+
+  router.post('/setup', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const result = await setup.run(user.id);
+    res.json(result);
+  }));
+
+  router.get('/approvals', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const safeAddress = requireSafe(user);
+    const { allGranted, approvals } = await syncApprovals(ctx, user, safeAddress);
+    res.json({ safeAddress, allGranted, approvals });
+  }));
+
+  router.get('/balances', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    const result = await balances.getBalances(user, { fresh: req.query.fresh === 'true' });
+    res.json(result);
+  }));
+
+  router.post('/transfer', asyncHandler(async (req, res) => {
+    const user = getUser(req);
+    requireLiveUser(user);
+    const input = parseTransferInput(req.body);
+    try {
+      const result = await transferUsdc(ctx, user.id, input);
+      res.json(result);
+    } finally {
+      balances.invalidate(user);
+    }
+  }));
+
+  router.post('/export/request', asyncHandler(async (req, res) => {
+    requireSignedRequest(req);
+    const user = getUser(req);
+    const confirmation = await keyExport.requestExport(user.id);
+    res.json(confirmation);
+  }));
+
+  router.post('/export', asyncHandler(async (req, res) => {
+    requireSignedRequest(req);
+    const user = getUser(req);
+    const { confirmationToken, passphrase } = req.body || {};
+    if (typeof confirmationToken !== 'string' || confirmationToken === '') {
+      throw new ValidationError('`confirmationToken` is required');
+    }
+
+    const result = await keyExport.exportKey(user.id, confirmationToken, passphrase);
+    res.set('Cache-Control', 'no-store');
+    res.json(result);
+  }));
+
+  return router;
+}
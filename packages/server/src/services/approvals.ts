@@ -0,0 +1,29 @@
+/**
+ * Approvals - Keep a user's approvalsGranted flag in line with chain state
+ */
+
+import type { User } from '@quantish/types';
+import { checkApprovals, type ApprovalCheckResult } from '@quantish/core';
+import type { ServerContext } from '../context';
+
+export interface ApprovalSyncResult extends ApprovalCheckResult {
+  /** User record after the flag was synced */
+  user: User;
+}
+
+/**
+ * Read the Safe's approvals from chain and update approvalsGranted if it drifted
+ */
+export async function syncApprovals(
+  ctx: Pick<ServerContext, 'database' | 'provider'>,
+  user: User,
+  safeAddress: string
+): Promise<ApprovalSyncResult> {
+  const check = await checkApprovals(ctx.provider, safeAddress);
+
+  if (user.approvalsGranted !== check.allGranted) {
+    user = await ctx.database.updateUser(user.id, { approvalsGranted: check.allGranted });
+  }
+
+  return { ...check, user };
+}
@@ -0,0 +1,89 @@
+/**
+ * Balances - Cached wallet balance lookups
+ *
+ * Dashboards poll balances every few seconds, so reads are cached per user
+ * for a short TTL and concurrent misses share one RPC round-trip. Paper
+ * users get their virtual USDC without touching the chain.
+ */
+
+import type { User, WalletBalances } from '@quantish/types';
+import { deriveSafeAddress, getWalletBalances } from '@quantish/core';
+import type { ServerContext } from '../context';
+
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<WalletBalances>;
+}
+
+function paperBalances(user: User, safeAddress: string): WalletBalances {
+  return {
+    eoa: { address: user.eoaAddress, matic: '0', usdc: '0' },
+    safe: {
+      address: safeAddress,
+      matic: '0',
+      wmatic: '0',
+      usdc: String(user.paperBalance ?? 0),
+      nativeUsdc: '0',
+    },
+  };
+}
+
+export class BalanceService {
+  private readonly cache: Map<string, CacheEntry> = new Map();
+
+  constructor(
+    private readonly ctx: Pick<ServerContext, 'provider'>,
+    private readonly ttl: number = 5000
+  ) {}
+
+  /**
+   * Get balances for a user's EOA and Safe
+   */
+  async getBalances(user: User, options: { fresh?: boolean } = {}): Promise<WalletBalances> {
+    const safeAddress = user.safeAddress || deriveSafeAddress(user.eoaAddress);
+    if (user.paper) {
+      return paperBalances(user, safeAddress);
+    }
+
+    const cacheKey = `${user.eoaAddress}:${safeAddress}`.toLowerCase();
+    const now = Date.now();
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > now && !options.fresh) {
+      return cached.value;
+    }
+
+    const value = getWalletBalances(this.ctx.provider, user.eoaAddress, safeAddress);
+    this.cache.set(cacheKey, { expiresAt: now + this.ttl, value });
+
+    // Don't keep failed lookups around for the rest of the TTL
+    value.catch(() => {
+      if (this.cache.get(cacheKey)?.value === value) {
+        this.cache.delete(cacheKey);
+      }
+    });
+
+    this.prune(now);
+    return value;
+  }
+
+  /**
+   * Drop cached balances for a user, e.g. after a transfer
+   */
+  invalidate(user: User): void {
+    const prefix = `${user.eoaAddress}:`.toLowerCase();
+    for (const key of this.cache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Batch Orders - Place many orders in one request
+ *
+ * Every order is validated against its market's tick size, the risk limits
+ * and the available USDC before any of them is signed, so a bad order fails
+ * the whole batch without touching the exchange. The signed orders are then
+ * submitted together and each one is stored with its own outcome.
+ *
+ * With allOrNone, a rejection cancels the orders the exchange accepted.
+ * Orders that already matched cannot be undone and are reported as such.
+ */
+
+import {
+  InsufficientBalanceError,
+  QuantishError,
+  ValidationError,
+  type Order,
+  type OrderStatus,
+  type User,
+} from '@quantish/types';
+import {
+  getTokenBalance,
+  POLYGON_CONTRACTS,
+  type ClobOrderBook,
+  type ClobOrderResponse,
+  type ClobResponse,
+  type SignedClobOrder,
+} from '@quantish/core';
+import { ethers } from 'ethers';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import type { Exchange, ExchangeAccount, ExchangeOrder } from './exchange';
+import type { OrderCancellationService } from './cancellation';
+import type { RiskEngine } from './risk';
+import {
+  parseOrderInput,
+  placementError,
+  requireTradingReady,
+  toPlaceOrderResult,
+  type OrderService,
+  type PlaceOrderInput,
+} from './orders';
+
+export interface BatchOrderInput {
+  orders: PlaceOrderInput[];
+  /** Cancel accepted orders if any order is rejected */
+  allOrNone: boolean;
+}
+
+export interface BatchOrderOutcome {
+  /** Position of the order in the request */
+  index: number;
+  /** Whether the exchange accepted the order */
+  success: boolean;
+  order: Order;
+  clobStatus?: string;
+  transactionsHashes?: string[];
+  makingAmount?: string;
+  takingAmount?: string;
+  /** Why the order was rejected, or why an allOrNone cancel failed */
+  error?: string;
+  code?: string;
+  /** allOrNone only: the accepted order was cancelled again */
+  rolledBack?: boolean;
+}
+
+export interface BatchOrderResult {
+  accepted: number;
+  rejected: number;
+  /** Accepted orders cancelled because another order was rejected */
+  rolledBack: number;
+  results: BatchOrderOutcome[];
+}
+
+/** Most orders in one batch request */
+export const MAX_BATCH_ORDERS = 50;
+
+const OPEN_STATUSES: OrderStatus[] = ['PENDING', 'LIVE', 'PARTIALLY_FILLED'];
+const PAGE_SIZE = 500;
+const USDC_DECIMALS = 6;
+/** Tolerance for float comparisons */
+const EPSILON = 1e-9;
+
+/**
+ * Point an error at the order of the batch that caused it
+ */
+function atIndex(index: number, error: unknown): unknown {
+  if (error instanceof QuantishError) {
+    error.message = `orders[${index}]: ${error.message}`;
+    error.details = { index, ...error.details };
+  }
+  return error;
+}
+
+/**
+ * Validate and normalize a batch request body
+ */
+export function parseBatchOrderInput(body: unknown, now: number = Date.now()): BatchOrderInput {
+  const { orders, allOrNone = false } = (body || {}) as Record<string, unknown>;
+
+  if (!Array.isArray(orders) || orders.length === 0) {
+    throw new ValidationError('`orders` must be a non-empty array');
+  }
+  if (orders.length > MAX_BATCH_ORDERS) {
+    throw new ValidationError(`At most ${MAX_BATCH_ORDERS} orders per batch`, { count: orders.length });
+  }
+  if (typeof allOrNone !== 'boolean') {
+    throw new ValidationError('`allOrNone` must be a boolean', { allOrNone });
+  }
+
+  const parsed: PlaceOrderInput[] = [];
+  for (const [index, order] of orders.entries()) {
+    try {
+      parsed.push(parseOrderInput(order, now));
+    } catch (error) {
+      throw atIndex(index, error);
+    }
+  }
+  return { orders: parsed, allOrNone };
+}
+
+/**
+ * Reject prices off the market's tick and orders signed for the wrong exchange
+ */
+function checkMarket(order: PlaceOrderInput, book: ClobOrderBook): void {
+  if (book.tick_size !== undefined) {
+    const tick = Number(book.tick_size);
+    if (Math.abs(Math.round(order.price / tick) * tick - order.price) > EPSILON) {
+      throw new ValidationError(`\`price\` must be a multiple of the market's tick size ${book.tick_size}`, {
+        price: order.price,
+        tickSize: book.tick_size,
+      });
+    }
+  }
+  if (book.neg_risk !== undefined && book.neg_risk !== order.negRisk) {
+    throw new ValidationError(`\`negRisk\` must be ${book.neg_risk} for this market`, { negRisk: order.negRisk });
+  }
+}
+
+export class BatchOrderService {
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly exchange: Exchange,
+    private readonly orders: OrderService,
+    private readonly risk: RiskEngine,
+    private readonly cancellation: OrderCancellationService
+  ) {}
+
+  /**
+   * Validate, sign, submit and store a batch of orders
+   */
+  async placeOrders(userId: string, input: BatchOrderInput): Promise<BatchOrderResult> {
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const safeAddress = requireTradingReady(user);
+
+    const books = await this.loadBooks(input.orders);
+
+    // Held until the batch is stored, so concurrent orders' limits see it
+    const results = await this.risk.guard(user, async () => {
+      for (const [index, order] of input.orders.entries()) {
+        const book = books.get(order.tokenId)!;
+        try {
+          checkMarket(order, book);
+          await this.risk.check(user, order, { book, pending: input.orders.slice(0, index) });
+        } catch (error) {
+          throw atIndex(index, error);
+        }
+      }
+      await this.checkBalance(user, safeAddress, input.orders);
+
+      const signed: SignedClobOrder[] = [];
+      for (const order of input.orders) {
+        signed.push(await this.orders.sign(wallet, safeAddress, order));
+      }
+
+      const responses = await this.submit(
+        { userId, wallet },
+        input.orders.map((order, index) => ({
+          order: signed[index],
+          orderType: order.type,
+          market: { conditionId: order.conditionId, negRisk: order.negRisk },
+        }))
+      );
+
+      const outcomes: BatchOrderOutcome[] = [];
+      for (const [index, order] of input.orders.entries()) {
+        const { order: stored, placed } = await this.orders.record(userId, order, signed[index], responses[index]);
+        if (placed) {
+          outcomes.push({ index, success: true, ...toPlaceOrderResult(stored, placed) });
+        } else {
+          const error = placementError(responses[index], stored.id);
+          outcomes.push({ index, success: false, order: stored, error: error.message, code: error.code });
+        }
+      }
+      return outcomes;
+    });
+
+    const accepted = results.filter((result) => result.success);
+    let rolledBack = 0;
+    if (input.allOrNone && accepted.length > 0 && accepted.length < results.length) {
+      rolledBack = await this.rollBack(userId, accepted);
+    }
+
+    return {
+      accepted: accepted.length,
+      rejected: results.length - accepted.length,
+      rolledBack,
+      results,
+    };
+  }
+
+  /**
+   * Load each token's book once, for tick size, neg-risk and price band checks
+   */
+  private async loadBooks(orders: PlaceOrderInput[]): Promise<Map<string, ClobOrderBook>> {
+    const books = new Map<string, ClobOrderBook>();
+    for (const tokenId of new Set(orders.map((order) => order.tokenId))) {
+      const response = await this.exchange.getOrderBook(tokenId);
+      if (!response.success || !response.data) {
+        throw new QuantishError(response.error || 'Could not load order book', 'CLOB_ERROR', 502, { tokenId });
+      }
+      books.set(tokenId, response.data);
+    }
+    return books;
+  }
+
+  /**
+   * Check that the Safe's USDC covers the batch's BUY orders on top of what
+   * open BUY orders already reserve. Paper users are checked against their
+   * virtual balance.
+   */
+  private async checkBalance(user: User, safeAddress: string, orders: PlaceOrderInput[]): Promise<void> {
+    const required = orders
+      .filter((order) => order.side === 'BUY')
+      .reduce((total, order) => total + order.price * order.size, 0);
+    if (required === 0) {
+      return;
+    }
+
+    let reserved = 0;
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.ctx.database.listOrders(user.id, {
+        side: 'BUY',
+        status: OPEN_STATUSES,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      reserved += page.reduce((total, order) => total + (order.size - order.filledSize) * order.price, 0);
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    const balance = user.paper
+      ? user.paperBalance ?? 0
+      : Number(ethers.utils.formatUnits(
+        await getTokenBalance(this.ctx.provider, POLYGON_CONTRACTS.usdc, safeAddress),
+        USDC_DECIMALS
+      ));
+
+    const available = balance - reserved;
+    if (required > available + EPSILON) {
+      throw new InsufficientBalanceError(
+        `Insufficient USDC for the batch: BUY orders need ${required}, ${Math.max(available, 0)} available`
+      );
+    }
+  }
+
+  /**
+   * Submit through the exchange's batch API, or one by one without one
+   */
+  private async submit(
+    account: ExchangeAccount,
+    orders: ExchangeOrder[]
+  ): Promise<Array<ClobResponse<ClobOrderResponse>>> {
+    if (this.exchange.postOrders) {
+      return this.exchange.postOrders(account, orders);
+    }
+
+    const responses: Array<ClobResponse<ClobOrderResponse>> = [];
+    for (const { order, orderType, market } of orders) {
+      responses.push(await this.exchange.postOrder(account, order, orderType, market));
+    }
+    return responses;
+  }
+
+  /**
+   * Cancel the accepted orders of a batch that had rejections
+   */
+  private async rollBack(userId: string, accepted: BatchOrderOutcome[]): Promise<number> {
+    const { results } = await this.cancellation.cancelListed(
+      userId,
+      accepted.map((outcome) => outcome.order),
+      { reason: 'allOrNone' }
+    );
+    const byOrderId = new Map(results.map((result) => [result.orderId, result]));
+
+    for (const outcome of accepted) {
+      const result = byOrderId.get(outcome.order.id);
+      outcome.rolledBack = !!result?.success;
+      if (result?.success) {
+        outcome.order = { ...outcome.order, status: result.status };
+      } else {
+        outcome.error = result?.error || `Order is ${outcome.order.status} and cannot be cancelled`;
+      }
+    }
+
+    return accepted.filter((outcome) => outcome.rolledBack).length;
+  }
+}
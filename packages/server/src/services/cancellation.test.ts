@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NotFoundError, type Order, type OrderStatus } from '@quantish/types';
+import { generateWallet, KeyVault, type ClobCancelResponse, type ClobResponse } from '@quantish/core';
+import { InMemoryAdapter } from '../adapters/base';
+import type { ServerContext } from '../context';
+import type { Exchange } from './exchange';
+import { OrderCancellationService } from './cancellation';
+
+const MARKET_A = `0x${'aa'.repeat(32)}`;
+const MARKET_B = `0x${'bb'.repeat(32)}`;
+
+type CancelHook = (clobOrderIds: string[]) => Promise<void> | void;
+
+/** An exchange that cancels whatever it is asked to, except the ids in `refuse` */
+function fakeExchange(refuse: Record<string, string> = {}, beforeReply?: CancelHook) {
+  const calls: string[][] = [];
+  const exchange = {
+    paper: false,
+    cancelOrders: vi.fn(async (_account: unknown, ids: string[]): Promise<ClobResponse<ClobCancelResponse>> => {
+      calls.push(ids);
+      await beforeReply?.(ids);
+      const notCanceled = Object.fromEntries(ids.filter((id) => refuse[id]).map((id) => [id, refuse[id]]));
+      return { success: true, status: 200, data: { canceled: ids.filter((id) => !refuse[id]), not_canceled: notCanceled } };
+    }),
+  };
+  return { exchange: exchange as unknown as Exchange, calls };
+}
+
+describe('OrderCancellationService', () => {
+  let database: InMemoryAdapter;
+  let ctx: ServerContext;
+  let userId: string;
+  let otherUserId: string;
+
+  async function createUser(externalId: string): Promise<string> {
+    const wallet = generateWallet(ctx.keyVault);
+    const user = await database.createUser({
+      externalId,
+      eoaAddress: wallet.address,
+      encryptedPrivateKey: wallet.encryptedKey.encrypted,
+      keyIv: wallet.encryptedKey.iv,
+      keyAuthTag: wallet.encryptedKey.authTag,
+      keyVersion: wallet.encryptedKey.keyVersion,
+    });
+    return user.id;
+  }
+
+  let clobIds = 0;
+  function order(owner: string, overrides: { conditionId?: string; tokenId?: string; status?: OrderStatus; clobOrderId?: string | null } = {}) {
+    const conditionId = overrides.conditionId ?? MARKET_A;
+    return database.createOrder({
+      userId: owner,
+      conditionId,
+      tokenId: overrides.tokenId ?? (conditionId === MARKET_A ? '1001' : '2001'),
+      side: 'BUY',
+      type: 'GTC',
+      price: 0.5,
+      size: 10,
+      status: overrides.status ?? 'LIVE',
+      clobOrderId: overrides.clobOrderId === null ? undefined : overrides.clobOrderId ?? `clob-${++clobIds}`,
+    });
+  }
+
+  beforeEach(async () => {
+    database = new InMemoryAdapter();
+    await database.connect();
+    ctx = {
+      database,
+      keyVault: new KeyVault({ masterKey: KeyVault.generateMasterKey() }),
+    } as unknown as ServerContext;
+    userId = await createUser('trader');
+    otherUserId = await createUser('someone-else');
+  });
+
+  describe('cancelOrder', () => {
+    it("refuses another user's order without asking the CLOB", async () => {
+      const theirs = await order(otherUserId);
+      const { exchange, calls } = fakeExchange();
+
+      await expect(new OrderCancellationService(ctx, exchange).cancelOrder(userId, theirs.id))
+        .rejects.toBeInstanceOf(NotFoundError);
+      expect(calls).toEqual([]);
+      expect((await database.getOrderById(theirs.id))!.status).toBe('LIVE');
+    });
+
+    it('refuses an order that is no longer open', async () => {
+      const filled = await order(userId, { status: 'FILLED' });
+      const { exchange, calls } = fakeExchange();
+
+      await expect(new OrderCancellationService(ctx, exchange).cancelOrder(userId, filled.id))
+        .rejects.toMatchObject({ code: 'ORDER_NOT_OPEN', statusCode: 409 });
+      expect(calls).toEqual([]);
+    });
+
+    it('marks a cancelled order CANCELLED', async () => {
+      const mine = await order(userId);
+      const { exchange } = fakeExchange();
+
+      const result = await new OrderCancellationService(ctx, exchange).cancelOrder(userId, mine.id);
+
+      expect(result).toMatchObject({ orderId: mine.id, success: true, status: 'CANCELLED' });
+      expect((await database.getOrderById(mine.id))!.status).toBe('CANCELLED');
+    });
+  });
+
+  describe('cancelOrders', () => {
+    it('only sends the caller\'s open orders with a CLOB id, for the given token', async () => {
+      const live = await order(userId, { tokenId: '1001' });
+      const partial = await order(userId, { tokenId: '1001', status: 'PARTIALLY_FILLED' });
+      await order(userId, { tokenId: '1002' });
+      await order(userId, { tokenId: '1001', status: 'FILLED' });
+      await order(userId, { tokenId: '1001', status: 'PENDING', clobOrderId: null });
+      await order(otherUserId, { tokenId: '1001' });
+      const { exchange, calls } = fakeExchange();
+
+      const result = await new OrderCancellationService(ctx, exchange).cancelOrders(userId, { tokenId: '1001' });
+
+      expect(calls).toHaveLength(1);
+      expect([...calls[0]].sort()).toEqual([live.clobOrderId, partial.clobOrderId].sort());
+      expect(result.cancelled).toBe(2);
+    });
+
+    it('reports each order the CLOB refused and stores the rest', async () => {
+      const kept = await order(userId);
+      const cancelled = await order(userId);
+      const { exchange } = fakeExchange({ [kept.clobOrderId!]: 'order already matched' });
+      const logActivity = vi.spyOn(database, 'logActivity');
+
+      const result = await new OrderCancellationService(ctx, exchange).cancelOrders(userId);
+
+      expect(result.cancelled).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.results).toEqual(expect.arrayContaining([
+        { orderId: cancelled.id, clobOrderId: cancelled.clobOrderId, success: true, status: 'CANCELLED' },
+        {
+          orderId: kept.id,
+          clobOrderId: kept.clobOrderId,
+          success: false,
+          status: 'LIVE',
+          error: 'order already matched',
+        },
+      ]));
+      expect((await database.getOrderById(kept.id))!.status).toBe('LIVE');
+      expect((await database.getOrderById(cancelled.id))!.status).toBe('CANCELLED');
+      expect(logActivity).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'trade.cancel',
+        success: false,
+        errorMessage: '1 of 2 orders were not cancelled',
+      }));
+    });
+
+    it('keeps going when an order fills or expires while its cancel is in flight', async () => {
+      const orders: Order[] = [];
+      for (let i = 0; i < 150; i++) {
+        orders.push(await order(userId, { conditionId: i % 2 === 0 ? MARKET_A : MARKET_B }));
+      }
+      const [filled, expired] = [orders[3], orders[120]];
+      const { exchange, calls } = fakeExchange({}, async (ids) => {
+        for (const raced of [filled, expired]) {
+          if (ids.includes(raced.clobOrderId!)) {
+            await database.updateOrder(raced.id, { status: raced === filled ? 'FILLED' : 'EXPIRED' });
+          }
+        }
+      });
+
+      const result = await new OrderCancellationService(ctx, exchange).cancelOrders(userId);
+
+      expect(calls.map((ids) => ids.length)).toEqual([100, 50]);
+      expect(result.cancelled).toBe(148);
+      expect(result.failed).toBe(2);
+      expect(result.results.filter((entry) => !entry.success)).toEqual(expect.arrayContaining([
+        expect.objectContaining({ orderId: filled.id, status: 'FILLED', error: 'Order was already FILLED' }),
+        expect.objectContaining({ orderId: expired.id, status: 'EXPIRED', error: 'Order was already EXPIRED' }),
+      ]));
+
+      const [transaction] = await database.listTransactions(userId, { type: 'CANCEL_ORDER' });
+      expect(transaction).toMatchObject({ status: 'EXECUTED', metadata: { cancelled: 148, failed: 2 } });
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Cancellation - Cancel a user's open orders on the CLOB
+ *
+ * Only orders the database knows as open and owned by the caller are sent to
+ * the CLOB, so one user can never cancel another user's orders. An order
+ * that fills or expires while its cancel is in flight keeps that status and
+ * is reported as not cancelled; the rest of the request carries on.
+ */
+
+import {
+  InvalidOrderTransitionError,
+  NotFoundError,
+  QuantishError,
+  type DatabaseAdapter,
+  type Order,
+  type OrderCursor,
+  type OrderStatus,
+} from '@quantish/types';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import type { Exchange } from './exchange';
+
+export interface CancelOrderResult {
+  orderId: string;
+  clobOrderId?: string | null;
+  success: boolean;
+  status: OrderStatus;
+  error?: string;
+}
+
+export interface CancelOrdersResult {
+  cancelled: number;
+  failed: number;
+  results: CancelOrderResult[];
+}
+
+export interface CancelFilter {
+  conditionId?: string;
+  tokenId?: string;
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['PENDING', 'LIVE', 'PARTIALLY_FILLED'];
+const PAGE_SIZE = 100;
+/** Order ids per CLOB cancel request */
+const CANCEL_BATCH_SIZE = 100;
+
+/**
+ * Load every open order of a user that has a CLOB id, optionally for one market
+ */
+async function listOpenOrders(database: DatabaseAdapter, userId: string, filter: CancelFilter): Promise<Order[]> {
+  const open: Order[] = [];
+
+  // Oldest first by keyset, so orders placed meanwhile neither shift nor repeat a page
+  let after: OrderCursor | undefined;
+  for (;;) {
+    const page = await database.listOrders(userId, {
+      status: OPEN_STATUSES,
+      conditionId: filter.conditionId,
+      tokenId: filter.tokenId,
+      sort: 'asc',
+      after,
+      limit: PAGE_SIZE,
+    });
+    open.push(...page);
+    if (page.length < PAGE_SIZE) {
+      break;
+    }
+    const last = page[page.length - 1];
+    after = { createdAt: last.createdAt, id: last.id };
+  }
+
+  return open.filter((order) => !!order.clobOrderId);
+}
+
+export class OrderCancellationService {
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly exchange: Exchange
+  ) {}
+
+  /**
+   * Cancel a single order owned by the user
+   */
+  async cancelOrder(userId: string, orderId: string): Promise<CancelOrderResult> {
+    const order = await this.ctx.database.getOrderById(orderId);
+    if (!order || order.userId !== userId) {
+      throw new NotFoundError('Order not found');
+    }
+    if (!OPEN_STATUSES.includes(order.status) || !order.clobOrderId) {
+      throw new QuantishError(`Order is ${order.status} and cannot be cancelled`, 'ORDER_NOT_OPEN', 409, {
+        status: order.status,
+      });
+    }
+
+    const [result] = (await this.cancel(userId, [order], { orderId })).results;
+    if (!result.success) {
+      throw new QuantishError(result.error || 'CLOB did not cancel the order', 'CANCEL_FAILED', 409, {
+        orderId,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Cancel all open orders of the user, optionally limited to one market or token
+   */
+  async cancelOrders(userId: string, filter: CancelFilter = {}): Promise<CancelOrdersResult> {
+    const orders = await listOpenOrders(this.ctx.database, userId, filter);
+    return this.cancel(userId, orders, { ...filter });
+  }
+
+  /**
+   * Cancel specific orders of the user, skipping any that are no longer open
+   */
+  async cancelListed(userId: string, orders: Order[], scope: Record<string, unknown> = {}): Promise<CancelOrdersResult> {
+    const open = orders.filter((order) =>
+      order.userId === userId && OPEN_STATUSES.includes(order.status) && !!order.clobOrderId);
+    return this.cancel(userId, open, scope);
+  }
+
+  private async cancel(
+    userId: string,
+    orders: Order[],
+    scope: Record<string, unknown>
+  ): Promise<CancelOrdersResult> {
+    const { database } = this.ctx;
+    const results: CancelOrderResult[] = [];
+    if (orders.length === 0) {
+      return { cancelled: 0, failed: 0, results };
+    }
+
+    const { wallet } = await loadUserSigner(this.ctx, userId);
+
+    for (let i = 0; i < orders.length; i += CANCEL_BATCH_SIZE) {
+      const batch = orders.slice(i, i + CANCEL_BATCH_SIZE);
+      const response = await this.exchange.cancelOrders(
+        { userId, wallet },
+        batch.map((order) => order.clobOrderId!)
+      );
+
+      const canceled = new Set(response.data?.canceled || []);
+      for (const order of batch) {
+        const clobOrderId = order.clobOrderId!;
+        if (canceled.has(clobOrderId)) {
+          results.push(await this.markCancelled(order));
+        } else {
+          results.push({
+            orderId: order.id,
+            clobOrderId,
+            success: false,
+            status: order.status,
+            error: response.data?.not_canceled[clobOrderId] || response.error || 'CLOB did not cancel the order',
+          });
+        }
+      }
+    }
+
+    const cancelled = results.filter((result) => result.success).length;
+    const failed = results.length - cancelled;
+    const metadata = {
+      ...scope,
+      orderIds: results.map((result) => result.orderId),
+      cancelled,
+      failed,
+    };
+
+    await database.createTransaction({
+      userId,
+      type: 'CANCEL_ORDER',
+      status: cancelled > 0 ? 'EXECUTED' : 'FAILED',
+      metadata,
+    });
+
+    await database.logActivity({
+      userId,
+      action: 'trade.cancel',
+      resource: 'order',
+      resourceId: orders.length === 1 ? orders[0].id : undefined,
+      details: metadata,
+      success: failed === 0,
+      errorMessage: failed > 0 ? `${failed} of ${results.length} orders were not cancelled` : undefined,
+    });
+
+    return { cancelled, failed, results };
+  }
+
+  /**
+   * Store an order the CLOB cancelled; one that filled or expired meanwhile
+   * keeps its status and comes back as not cancelled
+   */
+  private async markCancelled(order: Order): Promise<CancelOrderResult> {
+    const { database } = this.ctx;
+    try {
+      const updated = await database.updateOrder(order.id, { status: 'CANCELLED' });
+      return { orderId: order.id, clobOrderId: order.clobOrderId, success: true, status: updated.status };
+    } catch (error) {
+      const current = await database.getOrderById(order.id).catch(() => null);
+      return {
+        orderId: order.id,
+        clobOrderId: order.clobOrderId,
+        success: false,
+        status: current?.status ?? order.status,
+        error: error instanceof InvalidOrderTransitionError && current
+          ? `Order was already ${current.status}`
+          : `Could not store the cancellation: ${error instanceof Error ? error.message : error}`,
+      };
+    }
+  }
+}
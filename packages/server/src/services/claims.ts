@@ -0,0 +1,320 @@
+/**
+ * Claims - Redeem winning shares of resolved markets
+ *
+ * A position is claimable once its condition has reported payouts and the
+ * Safe still holds shares of it. Only markets the user has a position row in
+ * are checked; for those, what is held and what it pays are read from chain,
+ * so shares of them that arrived outside our fills are claimed too. Listing
+ * is read-only: claiming flags the position rows redeemable.
+ *
+ * Each condition is redeemed with its own Safe transaction: on Conditional
+ * Tokens for standard markets, on the Neg Risk Adapter for neg-risk ones.
+ * The REDEEM_POSITION transaction lists what was redeemed and its payout,
+ * and position accounting replays it to close the redeemed shares.
+ */
+
+import { ethers } from 'ethers';
+import { ValidationError, type Position, type Transaction } from '@quantish/types';
+import {
+  encodeRedeemPositions,
+  getConditionPayouts,
+  getConditionPositionIds,
+  getPositionBalances,
+  outcomeIndexSet,
+  type RedeemPositionsCall,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import { CONFIRMATION_TIMEOUT, confirmTransaction, executeSafeCall, requireSafe } from './safe-executor';
+import { toUpsertInput, type MovedPosition, type PositionAccounting } from './positions';
+
+export interface ClaimableOutcome {
+  tokenId: string;
+  /** Outcome name from the position row, if there is one */
+  outcome: string | null;
+  index: number;
+  /** Shares held by the Safe */
+  size: number;
+  /** USDC the shares pay out */
+  payout: number;
+}
+
+export interface ClaimablePosition {
+  conditionId: string;
+  negRisk: boolean;
+  marketTitle: string | null;
+  /** Outcomes the Safe holds shares of, winning or not */
+  outcomes: ClaimableOutcome[];
+  payout: number;
+}
+
+export interface ClaimOutcome {
+  conditionId: string;
+  negRisk: boolean;
+  payout: number;
+  success: boolean;
+  transaction: Transaction;
+  txHash?: string;
+  error?: string;
+}
+
+export interface ClaimResult {
+  /** Conditions redeemed */
+  claimed: number;
+  /** USDC paid out by the redeemed conditions */
+  payout: number;
+  results: ClaimOutcome[];
+}
+
+/** A claimable condition with the raw balances its redemption needs */
+interface Redeemable {
+  position: ClaimablePosition;
+  /** Raw balance per outcome index */
+  balances: ethers.BigNumber[];
+  /** The stored position rows of the condition */
+  stored: Position[];
+}
+
+const USDC_DECIMALS = 6;
+const CONDITION_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function toAmount(raw: ethers.BigNumber): number {
+  return Number(ethers.utils.formatUnits(raw, USDC_DECIMALS));
+}
+
+/** Why a redemption did not go through, from its stored status */
+function redeemError(transaction: Transaction): string {
+  if (transaction.status === 'SUBMITTED') {
+    return `Transaction ${transaction.txHash} was not mined in time; the shares close once it is`;
+  }
+  return (transaction.metadata?.error as string | undefined) || 'Relayer rejected redemption';
+}
+
+/**
+ * Validate a claim request body
+ */
+export function parseClaimInput(body: unknown): { conditionId?: string } {
+  const { conditionId } = (body || {}) as Record<string, unknown>;
+  if (conditionId === undefined) {
+    return {};
+  }
+  if (typeof conditionId !== 'string' || !CONDITION_ID_PATTERN.test(conditionId)) {
+    throw new ValidationError('`conditionId` must be a 32-byte hex string', { conditionId });
+  }
+  return { conditionId: conditionId.toLowerCase() };
+}
+
+export class ClaimService {
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly accounting: PositionAccounting,
+    private readonly confirmationTimeout = CONFIRMATION_TIMEOUT
+  ) {}
+
+  /**
+   * List the resolved markets the user's Safe can redeem
+   */
+  async listClaimable(userId: string): Promise<ClaimablePosition[]> {
+    const user = await this.ctx.database.getUserById(userId);
+    const safeAddress = requireSafe(user || { safeDeployed: false });
+    const found = await this.find(userId, safeAddress);
+    return found.map((redeemable) => redeemable.position);
+  }
+
+  /**
+   * Redeem every claimable market, or only the given one
+   */
+  async claim(userId: string, input: { conditionId?: string } = {}): Promise<ClaimResult> {
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const safeAddress = requireSafe(user);
+
+    const found = await this.find(userId, safeAddress, input.conditionId);
+    if (input.conditionId && found.length === 0) {
+      throw new ValidationError('Nothing to claim for this market', { conditionId: input.conditionId });
+    }
+
+    const results: ClaimOutcome[] = [];
+    for (const redeemable of found) {
+      await this.flagRedeemable(redeemable);
+      results.push(await this.redeem(userId, wallet, safeAddress, redeemable));
+    }
+
+    const claimed = results.filter((result) => result.success);
+    return {
+      claimed: claimed.length,
+      payout: claimed.reduce((total, result) => total + result.payout, 0),
+      results,
+    };
+  }
+
+  /**
+   * Check each market the user has a position in against chain
+   */
+  private async find(userId: string, safeAddress: string, conditionId?: string): Promise<Redeemable[]> {
+    const byCondition = new Map<string, Position[]>();
+    for (const position of await this.ctx.database.getPositions(userId)) {
+      if (position.size <= 0 && !position.redeemable) {
+        continue;
+      }
+      if (conditionId && position.conditionId.toLowerCase() !== conditionId) {
+        continue;
+      }
+      byCondition.set(position.conditionId, [...(byCondition.get(position.conditionId) || []), position]);
+    }
+
+    const found: Redeemable[] = [];
+    for (const [id, positions] of byCondition) {
+      const redeemable = await this.inspect(safeAddress, id, positions);
+      if (redeemable) {
+        found.push(redeemable);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Read a market's payouts and the Safe's shares of it, or null if it is
+   * unresolved or nothing is held
+   *
+   * Whether a market is neg-risk decides the collateral its token ids are
+   * derived from, so the stored flag is only a hint: the other kind is tried
+   * if no stored token matches.
+   */
+  private async inspect(safeAddress: string, conditionId: string, positions: Position[]): Promise<Redeemable | null> {
+    const { provider } = this.ctx;
+    const payouts = await getConditionPayouts(provider, conditionId);
+    if (!payouts.resolved) {
+      return null;
+    }
+
+    const stored = new Map(positions.map((position) => [position.tokenId, position]));
+    const hint = positions.some((position) => position.negativeRisk);
+
+    for (const negRisk of [hint, !hint]) {
+      const tokenIds = await getConditionPositionIds(provider, conditionId, payouts.outcomeSlotCount, negRisk);
+      if (!tokenIds.some((tokenId) => stored.has(tokenId))) {
+        continue;
+      }
+
+      const balances = await getPositionBalances(provider, safeAddress, tokenIds);
+      const outcomes = tokenIds
+        .map((tokenId, index): ClaimableOutcome => ({
+          tokenId,
+          outcome: stored.get(tokenId)?.outcome || null,
+          index,
+          size: toAmount(balances[index]),
+          payout: toAmount(balances[index].mul(payouts.numerators[index]).div(payouts.denominator)),
+        }))
+        .filter((outcome) => !balances[outcome.index].isZero());
+      if (outcomes.length === 0) {
+        return null;
+      }
+
+      return {
+        position: {
+          conditionId,
+          negRisk,
+          marketTitle: positions.find((position) => position.marketTitle)?.marketTitle ?? null,
+          outcomes,
+          payout: outcomes.reduce((total, outcome) => total + outcome.payout, 0),
+        },
+        balances,
+        stored: positions,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Flag a claimable market's position rows redeemable, at their payout per share
+   */
+  private async flagRedeemable({ position: claimable, stored }: Redeemable): Promise<void> {
+    for (const position of stored) {
+      const outcome = claimable.outcomes.find((candidate) => candidate.tokenId === position.tokenId);
+      if (!outcome || position.redeemable) {
+        continue;
+      }
+      const price = outcome.payout / outcome.size;
+      await this.ctx.database.upsertPosition({
+        ...toUpsertInput(position),
+        currentPrice: price,
+        currentValue: position.size * price,
+        negativeRisk: claimable.negRisk,
+        redeemable: true,
+      });
+    }
+  }
+
+  /**
+   * Submit one market's redemption, wait for it to be mined and record it
+   */
+  private async redeem(
+    userId: string,
+    wallet: ethers.Wallet,
+    safeAddress: string,
+    { position, balances }: Redeemable
+  ): Promise<ClaimOutcome> {
+    const { database } = this.ctx;
+    const call: RedeemPositionsCall = position.negRisk
+      ? { negRisk: true, amounts: balances }
+      : { negRisk: false, indexSets: position.outcomes.map((outcome) => outcomeIndexSet(outcome.index)) };
+
+    const result = await executeSafeCall(
+      this.ctx,
+      wallet,
+      safeAddress,
+      encodeRedeemPositions(position.conditionId, call)
+    );
+
+    const positions: MovedPosition[] = position.outcomes.map(({ tokenId, size, payout }) => ({ tokenId, size, payout }));
+    const metadata = {
+      conditionId: position.conditionId,
+      negRisk: position.negRisk,
+      safeAddress,
+      payout: position.payout,
+      positions,
+      ...(call.negRisk
+        ? { amounts: balances.map((balance) => balance.toString()) }
+        : { indexSets: call.indexSets.map((indexSet) => indexSet.toString()) }),
+      ...(result.error && { error: result.error }),
+    };
+
+    const submitted = await database.createTransaction({
+      userId,
+      type: 'REDEEM_POSITION',
+      status: result.success ? 'SUBMITTED' : 'FAILED',
+      txHash: result.txHash,
+      metadata,
+    });
+    const transaction = await confirmTransaction(this.ctx, submitted, this.confirmationTimeout);
+    const success = transaction.status === 'EXECUTED';
+    const error = success ? undefined : redeemError(transaction);
+
+    await database.logActivity({
+      userId,
+      action: 'positions.claim',
+      resource: 'transaction',
+      resourceId: transaction.id,
+      details: transaction.metadata,
+      success,
+      errorMessage: error,
+    });
+
+    // Only a mined redemption has closed the shares
+    if (success) {
+      for (const { tokenId } of positions) {
+        await this.accounting.syncToken(userId, tokenId);
+      }
+    }
+
+    return {
+      conditionId: position.conditionId,
+      negRisk: position.negRisk,
+      payout: position.payout,
+      success,
+      transaction,
+      txHash: result.txHash,
+      error,
+    };
+  }
+}
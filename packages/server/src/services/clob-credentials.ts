@@ -0,0 +1,51 @@
+/**
+ * CLOB Credentials - Per-user CLOB API credentials
+ *
+ * Credentials are never stored; they are derived from the user's wallet with
+ * an L1 signature on first use and kept in memory afterwards. Wallet setup
+ * and the exchange share one store, so setup's derivation is the one trading
+ * uses.
+ */
+
+import type { ethers } from 'ethers';
+import { QuantishError } from '@quantish/types';
+import type { ClobApiCredentials } from '@quantish/core';
+import type { ServerContext } from '../context';
+
+export class ClobCredentialStore {
+  private readonly credentials: Map<string, Promise<ClobApiCredentials>> = new Map();
+
+  constructor(private readonly ctx: Pick<ServerContext, 'clob'>) {}
+
+  /**
+   * Get credentials for a user, deriving them if not cached
+   */
+  get(userId: string, wallet: ethers.Wallet): Promise<ClobApiCredentials> {
+    const cached = this.credentials.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    const pending = this.ctx.clob.createOrDeriveApiKey(wallet).then((result) => {
+      if (!result.success || !result.data) {
+        throw new QuantishError(
+          `Could not obtain CLOB credentials: ${result.error || 'unknown error'}`,
+          'CLOB_ERROR',
+          502
+        );
+      }
+      return result.data;
+    });
+    pending.catch(() => this.credentials.delete(userId));
+
+    this.credentials.set(userId, pending);
+    return pending;
+  }
+
+  /**
+   * Drop cached credentials (e.g. after the CLOB rejects them)
+   */
+  invalidate(userId: string): void {
+    this.credentials.delete(userId);
+  }
+}
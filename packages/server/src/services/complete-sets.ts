@@ -0,0 +1,319 @@
+/**
+ * Complete Sets - Split USDC into outcome shares and merge them back
+ *
+ * One USDC splits into one share of each outcome of a binary market, and a
+ * share of each merges back into one USDC. Both go through Conditional Tokens
+ * for standard markets and through the Neg Risk Adapter for neg-risk ones,
+ * as a Safe transaction sent by the relayer.
+ *
+ * Which of the two a market is decides the collateral of its token ids, and
+ * the wrong one mints shares that are not the market's tradable tokens. It
+ * is detected from the CLOB: only the right kind's tokens have a book. A
+ * resolved market has no books, so a merge there goes by which kind's shares
+ * the Safe holds.
+ *
+ * The SPLIT_POSITION or MERGE_POSITIONS transaction lists the shares it
+ * moved, and position accounting replays it once it is mined; both tokens'
+ * positions are refreshed then, and not before.
+ */
+
+import { ethers } from 'ethers';
+import {
+  InsufficientBalanceError,
+  QuantishError,
+  ValidationError,
+  type Position,
+  type Transaction,
+} from '@quantish/types';
+import {
+  encodeMergePositions,
+  encodeSplitPosition,
+  getConditionPayouts,
+  getConditionPositionIds,
+  getPositionBalances,
+  getTokenBalance,
+  POLYGON_CONTRACTS,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import {
+  CONFIRMATION_TIMEOUT,
+  confirmTransaction,
+  executeSafeCall,
+  requireSafe,
+  transactionError,
+} from './safe-executor';
+import { toUpsertInput, type MovedPosition, type PositionAccounting } from './positions';
+
+export type CompleteSetAction = 'split' | 'merge';
+
+export interface CompleteSetInput {
+  conditionId: string;
+  /** Complete sets in USDC units, e.g. "25.5"; merges also take "max" */
+  amount: string;
+  /** Whether the market is neg-risk; detected when omitted, rejected if wrong */
+  negRisk?: boolean;
+}
+
+export interface CompleteSetResult {
+  transaction: Transaction;
+  txHash?: string;
+  conditionId: string;
+  negRisk: boolean;
+  /** Complete sets split or merged */
+  amount: string;
+  /** Both outcome positions after the refresh */
+  positions: Position[];
+}
+
+/** The market's outcome token ids and which collateral they are minted from */
+interface OutcomeTokens {
+  tokenIds: string[];
+  negRisk: boolean;
+}
+
+const USDC_DECIMALS = 6;
+const CONDITION_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+/**
+ * Validate and normalize a split or merge request body
+ */
+export function parseCompleteSetInput(body: unknown, action: CompleteSetAction): CompleteSetInput {
+  const { conditionId, amount, negRisk } = (body || {}) as Record<string, unknown>;
+
+  if (typeof conditionId !== 'string' || !CONDITION_ID_PATTERN.test(conditionId)) {
+    throw new ValidationError('`conditionId` must be a 32-byte hex string', { conditionId });
+  }
+  if (negRisk !== undefined && typeof negRisk !== 'boolean') {
+    throw new ValidationError('`negRisk` must be a boolean', { negRisk });
+  }
+
+  if (action === 'merge' && amount === 'max') {
+    return { conditionId: conditionId.toLowerCase(), amount, negRisk };
+  }
+  const amountString = typeof amount === 'number' ? amount.toString() : amount;
+  if (typeof amountString !== 'string' || !/^\d+(\.\d{1,6})?$/.test(amountString)) {
+    throw new ValidationError(
+      action === 'merge'
+        ? '`amount` must be "max" or a positive decimal with at most 6 places'
+        : '`amount` must be a positive decimal with at most 6 places',
+      { amount }
+    );
+  }
+  if (ethers.utils.parseUnits(amountString, USDC_DECIMALS).isZero()) {
+    throw new ValidationError('`amount` must be greater than zero', { amount });
+  }
+
+  return { conditionId: conditionId.toLowerCase(), amount: amountString, negRisk };
+}
+
+export class CompleteSetService {
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly accounting: PositionAccounting,
+    private readonly confirmationTimeout = CONFIRMATION_TIMEOUT
+  ) {}
+
+  /**
+   * Split USDC from the Safe into complete sets
+   */
+  async split(userId: string, input: CompleteSetInput): Promise<CompleteSetResult> {
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const safeAddress = requireSafe(user);
+    const market = await this.outcomeTokens(input, safeAddress, 'split');
+
+    const rawAmount = ethers.utils.parseUnits(input.amount, USDC_DECIMALS);
+    const balance = await getTokenBalance(this.ctx.provider, POLYGON_CONTRACTS.usdc, safeAddress);
+    if (balance.lt(rawAmount)) {
+      throw new InsufficientBalanceError(
+        `Insufficient USDC balance: have ${ethers.utils.formatUnits(balance, USDC_DECIMALS)}, need ${input.amount}`
+      );
+    }
+
+    return this.execute(userId, wallet, safeAddress, 'split', input, market, rawAmount);
+  }
+
+  /**
+   * Merge complete sets held by the Safe back into USDC; "max" merges every
+   * complete set
+   */
+  async merge(userId: string, input: CompleteSetInput): Promise<CompleteSetResult> {
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const safeAddress = requireSafe(user);
+    const market = await this.outcomeTokens(input, safeAddress, 'merge');
+
+    const balances = await getPositionBalances(this.ctx.provider, safeAddress, market.tokenIds);
+    const mergeable = balances[0].lt(balances[1]) ? balances[0] : balances[1];
+    if (mergeable.isZero()) {
+      throw new InsufficientBalanceError('No complete sets to merge');
+    }
+    const rawAmount = input.amount === 'max' ? mergeable : ethers.utils.parseUnits(input.amount, USDC_DECIMALS);
+    if (mergeable.lt(rawAmount)) {
+      throw new InsufficientBalanceError(
+        `Insufficient complete sets: have ${ethers.utils.formatUnits(mergeable, USDC_DECIMALS)}, need ${input.amount}`
+      );
+    }
+
+    return this.execute(userId, wallet, safeAddress, 'merge', input, market, rawAmount);
+  }
+
+  /**
+   * Token ids of the market's two outcomes, from whichever collateral the
+   * market really uses; a `negRisk` flag that disagrees is rejected
+   */
+  private async outcomeTokens(
+    input: CompleteSetInput,
+    safeAddress: string,
+    action: CompleteSetAction
+  ): Promise<OutcomeTokens> {
+    const { conditionId } = input;
+    const { outcomeSlotCount } = await getConditionPayouts(this.ctx.provider, conditionId);
+    if (outcomeSlotCount === 0) {
+      throw new ValidationError('Unknown market', { conditionId: input.conditionId });
+    }
+    if (outcomeSlotCount !== 2) {
+      throw new ValidationError('Only binary markets can be split or merged', {
+        conditionId: input.conditionId,
+        outcomeSlotCount,
+      });
+    }
+
+    const kinds = input.negRisk === undefined ? [false, true] : [input.negRisk, !input.negRisk];
+    const candidates: OutcomeTokens[] = await Promise.all(kinds.map(async (negRisk) => ({
+      negRisk,
+      tokenIds: await getConditionPositionIds(this.ctx.provider, conditionId, outcomeSlotCount, negRisk),
+    })));
+
+    let market = await this.findTraded(candidates);
+    if (!market && action === 'merge') {
+      market = await this.findHeld(candidates, safeAddress);
+      if (!market) {
+        throw new InsufficientBalanceError('No complete sets to merge');
+      }
+    }
+    if (!market) {
+      throw new ValidationError('Market has no order book to tell whether it is neg-risk', { conditionId });
+    }
+    if (input.negRisk !== undefined && input.negRisk !== market.negRisk) {
+      throw new ValidationError(`\`negRisk\` must be ${market.negRisk} for this market`, {
+        conditionId,
+        negRisk: input.negRisk,
+      });
+    }
+    return market;
+  }
+
+  /**
+   * The candidate whose tokens the CLOB has a book for
+   */
+  private async findTraded(candidates: OutcomeTokens[]): Promise<OutcomeTokens | null> {
+    for (const candidate of candidates) {
+      const tokenId = candidate.tokenIds[0];
+      const response = await this.ctx.clob.getOrderBook(tokenId);
+      if (response.success) {
+        return candidate;
+      }
+      if (response.status !== 404) {
+        throw new QuantishError(response.error || 'Could not load order book', 'CLOB_ERROR', 502, { tokenId });
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The candidate whose tokens the Safe holds, for markets whose books are gone
+   */
+  private async findHeld(candidates: OutcomeTokens[], safeAddress: string): Promise<OutcomeTokens | null> {
+    for (const candidate of candidates) {
+      const balances = await getPositionBalances(this.ctx.provider, safeAddress, candidate.tokenIds);
+      if (balances.some((balance) => !balance.isZero())) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Submit a split or merge, wait for it to be mined and record it
+   */
+  private async execute(
+    userId: string,
+    wallet: ethers.Wallet,
+    safeAddress: string,
+    action: CompleteSetAction,
+    input: CompleteSetInput,
+    { tokenIds, negRisk }: OutcomeTokens,
+    rawAmount: ethers.BigNumber
+  ): Promise<CompleteSetResult> {
+    const { database } = this.ctx;
+    const call = action === 'split'
+      ? encodeSplitPosition(input.conditionId, rawAmount, negRisk)
+      : encodeMergePositions(input.conditionId, rawAmount, negRisk);
+    const result = await executeSafeCall(this.ctx, wallet, safeAddress, call);
+
+    const amount = input.amount === 'max' ? ethers.utils.formatUnits(rawAmount, USDC_DECIMALS) : input.amount;
+    const positions: MovedPosition[] = tokenIds.map((tokenId) => ({ tokenId, size: Number(amount) }));
+    const metadata = {
+      conditionId: input.conditionId,
+      negRisk,
+      amount,
+      safeAddress,
+      positions,
+      ...(result.error && { error: result.error }),
+    };
+
+    const submitted = await database.createTransaction({
+      userId,
+      type: action === 'split' ? 'SPLIT_POSITION' : 'MERGE_POSITIONS',
+      status: result.success ? 'SUBMITTED' : 'FAILED',
+      txHash: result.txHash,
+      metadata,
+    });
+    const transaction = await confirmTransaction(this.ctx, submitted, this.confirmationTimeout);
+    const error = transactionError(result, transaction, `Relayer rejected ${action}`);
+
+    await database.logActivity({
+      userId,
+      action: `positions.${action}`,
+      resource: 'transaction',
+      resourceId: transaction.id,
+      details: transaction.metadata,
+      success: !error,
+      errorMessage: error?.message,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      transaction,
+      txHash: result.txHash,
+      conditionId: input.conditionId,
+      negRisk,
+      amount,
+      positions: await this.refresh(userId, tokenIds, negRisk),
+    };
+  }
+
+  /**
+   * Re-derive both outcome positions and flag them mergeable while both
+   * hold shares
+   */
+  private async refresh(userId: string, tokenIds: string[], negRisk: boolean): Promise<Position[]> {
+    const synced: Position[] = [];
+    for (const tokenId of tokenIds) {
+      const position = await this.accounting.syncToken(userId, tokenId);
+      if (position) {
+        synced.push(position);
+      }
+    }
+
+    const mergeable = synced.length === tokenIds.length && synced.every((position) => position.size > 0);
+    return Promise.all(synced.map((position) => this.ctx.database.upsertPosition({
+      ...toUpsertInput(position),
+      negativeRisk: negRisk,
+      mergeable,
+    })));
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Conversions - Turn NO shares of a neg-risk event into USDC and YES shares
+ *
+ * At most one question of a neg-risk event resolves YES. Holding NO on k of
+ * its questions is therefore worth the same as k - 1 USDC plus YES on every
+ * other question, and the Neg Risk Adapter's convertPositions swaps one for
+ * the other, minus the market's fee.
+ *
+ * For position accounting a conversion moves cost rather than realizing
+ * PnL: the NO shares are sold at their average cost, and that cost less the
+ * USDC received becomes the cost of the YES shares. Only NO shares that cost
+ * less than the USDC they return realize a gain.
+ *
+ * A conversion is applied to positions only once its transaction is mined.
+ * One that is not mined in time stays SUBMITTED and is not applied.
+ */
+
+import { ethers } from 'ethers';
+import {
+  InsufficientBalanceError,
+  ValidationError,
+  type OrderSide,
+  type Position,
+  type Transaction,
+} from '@quantish/types';
+import {
+  encodeConvertPositions,
+  getNegRiskMarket,
+  getPositionBalances,
+  outcomeIndexSet,
+  type NegRiskQuestion,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import {
+  CONFIRMATION_TIMEOUT,
+  confirmTransaction,
+  executeSafeCall,
+  requireSafe,
+  transactionError,
+} from './safe-executor';
+import { toUpsertInput, type MovedPosition, type PositionAccounting } from './positions';
+
+export interface ConversionInput {
+  /** Neg-risk market id of the event */
+  marketId: string;
+  /** Questions whose NO shares are converted */
+  questionIndexes: number[];
+  /** NO shares converted per question, e.g. "25.5", or "max" */
+  amount: string;
+}
+
+export interface ConversionLeg {
+  questionIndex: number;
+  conditionId: string;
+  tokenId: string;
+  size: number;
+  /** USDC per share recorded for position accounting */
+  price: number;
+}
+
+export interface ConversionPreview {
+  marketId: string;
+  questionCount: number;
+  /** Bitmask of the converted questions, as sent to the adapter */
+  indexSet: string;
+  feeBips: number;
+  /** NO shares converted per question */
+  amount: string;
+  /** NO shares given up */
+  burned: ConversionLeg[];
+  /** YES shares received, after the fee */
+  received: ConversionLeg[];
+  /** USDC received, after the fee */
+  usdc: number;
+  /** Shares kept as the fee out of each converted amount */
+  fee: number;
+}
+
+export interface ConversionResult extends ConversionPreview {
+  transaction: Transaction;
+  txHash?: string;
+  /** Positions of every leg after the refresh */
+  positions: Position[];
+}
+
+/** A preview with the raw values its transaction needs */
+interface ConversionPlan {
+  preview: ConversionPreview;
+  indexSet: ethers.BigNumber;
+  rawAmount: ethers.BigNumber;
+}
+
+const USDC_DECIMALS = 6;
+const BIPS = 10000;
+const MARKET_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function toAmount(raw: ethers.BigNumber): number {
+  return Number(ethers.utils.formatUnits(raw, USDC_DECIMALS));
+}
+
+function toMovedPosition(leg: ConversionLeg, side: OrderSide): MovedPosition {
+  return { tokenId: leg.tokenId, conditionId: leg.conditionId, side, size: leg.size, price: leg.price };
+}
+
+/**
+ * Validate and normalize a conversion request body
+ */
+export function parseConversionInput(body: unknown): ConversionInput {
+  const { marketId, questionIndexes, amount } = (body || {}) as Record<string, unknown>;
+
+  if (typeof marketId !== 'string' || !MARKET_ID_PATTERN.test(marketId)) {
+    throw new ValidationError('`marketId` must be a 32-byte hex string', { marketId });
+  }
+  if (
+    !Array.isArray(questionIndexes) || questionIndexes.length === 0
+    || !questionIndexes.every((index) => Number.isInteger(index) && index >= 0)
+  ) {
+    throw new ValidationError('`questionIndexes` must be a non-empty array of question indexes', { questionIndexes });
+  }
+  if (new Set(questionIndexes).size !== questionIndexes.length) {
+    throw new ValidationError('`questionIndexes` must not repeat a question', { questionIndexes });
+  }
+
+  if (amount === 'max') {
+    return { marketId: marketId.toLowerCase(), questionIndexes, amount };
+  }
+  const amountString = typeof amount === 'number' ? amount.toString() : amount;
+  if (typeof amountString !== 'string' || !/^\d+(\.\d{1,6})?$/.test(amountString)) {
+    throw new ValidationError('`amount` must be "max" or a positive decimal with at most 6 places', { amount });
+  }
+  if (ethers.utils.parseUnits(amountString, USDC_DECIMALS).isZero()) {
+    throw new ValidationError('`amount` must be greater than zero', { amount });
+  }
+
+  return { marketId: marketId.toLowerCase(), questionIndexes, amount: amountString };
+}
+
+export class ConversionService {
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly accounting: PositionAccounting,
+    private readonly confirmationTimeout = CONFIRMATION_TIMEOUT
+  ) {}
+
+  /**
+   * Work out what a conversion would give up and receive, without sending it
+   */
+  async preview(userId: string, input: ConversionInput): Promise<ConversionPreview> {
+    const user = await this.ctx.database.getUserById(userId);
+    const safeAddress = requireSafe(user || { safeDeployed: false });
+    const { preview } = await this.plan(userId, safeAddress, input);
+    return preview;
+  }
+
+  /**
+   * Convert NO shares through the Neg Risk Adapter, once the transaction is mined
+   */
+  async convert(userId: string, input: ConversionInput): Promise<ConversionResult> {
+    const { database } = this.ctx;
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const safeAddress = requireSafe(user);
+    const { preview, indexSet, rawAmount } = await this.plan(userId, safeAddress, input);
+
+    const result = await executeSafeCall(
+      this.ctx,
+      wallet,
+      safeAddress,
+      encodeConvertPositions(preview.marketId, indexSet, rawAmount)
+    );
+
+    const positions: MovedPosition[] = [
+      ...preview.burned.map((leg) => toMovedPosition(leg, 'SELL')),
+      ...preview.received.map((leg) => toMovedPosition(leg, 'BUY')),
+    ];
+    const metadata = {
+      marketId: preview.marketId,
+      indexSet: preview.indexSet,
+      amount: preview.amount,
+      feeBips: preview.feeBips,
+      usdc: preview.usdc,
+      safeAddress,
+      positions,
+      ...(result.error && { error: result.error }),
+    };
+
+    const submitted = await database.createTransaction({
+      userId,
+      type: 'CONVERT_POSITIONS',
+      status: result.success ? 'SUBMITTED' : 'FAILED',
+      txHash: result.txHash,
+      metadata,
+    });
+    const transaction = await confirmTransaction(this.ctx, submitted, this.confirmationTimeout);
+    const error = transactionError(result, transaction, 'Relayer rejected conversion');
+
+    await database.logActivity({
+      userId,
+      action: 'positions.convert',
+      resource: 'transaction',
+      resourceId: transaction.id,
+      details: transaction.metadata,
+      success: !error,
+      errorMessage: error?.message,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      ...preview,
+      transaction,
+      txHash: result.txHash,
+      positions: await this.refresh(userId, positions.map((position) => position.tokenId)),
+    };
+  }
+
+  /**
+   * Read the market and the Safe's NO shares, check the conversion is
+   * possible and price its legs
+   */
+  private async plan(userId: string, safeAddress: string, input: ConversionInput): Promise<ConversionPlan> {
+    const { provider, database } = this.ctx;
+    const market = await getNegRiskMarket(provider, input.marketId);
+    if (market.questionCount === 0) {
+      throw new ValidationError('Unknown neg-risk market', { marketId: input.marketId });
+    }
+    if (market.questionCount < 2) {
+      throw new ValidationError('Converting needs a market with at least two questions', {
+        marketId: input.marketId,
+        questionCount: market.questionCount,
+      });
+    }
+    const outOfRange = input.questionIndexes.filter((index) => index >= market.questionCount);
+    if (outOfRange.length > 0) {
+      throw new ValidationError(`\`questionIndexes\` must be below the question count ${market.questionCount}`, {
+        questionIndexes: outOfRange,
+      });
+    }
+
+    const selected = market.questions.filter((question) => input.questionIndexes.includes(question.index));
+    const others = market.questions.filter((question) => !input.questionIndexes.includes(question.index));
+
+    const balances = await getPositionBalances(provider, safeAddress, selected.map((question) => question.noTokenId));
+    const held = balances.reduce((min, balance) => (balance.lt(min) ? balance : min));
+    if (held.isZero()) {
+      throw new InsufficientBalanceError('No NO shares to convert: the Safe must hold NO on every selected question');
+    }
+    const rawAmount = input.amount === 'max' ? held : ethers.utils.parseUnits(input.amount, USDC_DECIMALS);
+    if (held.lt(rawAmount)) {
+      throw new InsufficientBalanceError(
+        `Insufficient NO shares: have ${ethers.utils.formatUnits(held, USDC_DECIMALS)} on every selected question, need ${input.amount}`
+      );
+    }
+
+    const rawFee = rawAmount.mul(market.feeBips).div(BIPS);
+    const rawOut = rawAmount.sub(rawFee);
+    const amount = toAmount(rawAmount);
+    const out = toAmount(rawOut);
+    const usdc = toAmount(rawOut.mul(selected.length - 1));
+
+    // The NO shares' cost moves to the YES shares, less the USDC received
+    const stored = new Map((await database.getPositions(userId)).map((position) => [position.tokenId, position]));
+    const avgPrice = (question: NegRiskQuestion) => stored.get(question.noTokenId)?.avgPrice ?? 0;
+    const noCost = selected.reduce((total, question) => total + avgPrice(question) * amount, 0);
+    const yesCost = others.length > 0 ? Math.max(0, noCost - usdc) : 0;
+    const proceeds = usdc + yesCost;
+
+    const indexSet = selected.reduce((set, question) => set.or(outcomeIndexSet(question.index)), ethers.constants.Zero);
+    return {
+      preview: {
+        marketId: input.marketId,
+        questionCount: market.questionCount,
+        indexSet: indexSet.toString(),
+        feeBips: market.feeBips,
+        amount: input.amount === 'max' ? ethers.utils.formatUnits(rawAmount, USDC_DECIMALS) : input.amount,
+        burned: selected.map((question) => ({
+          questionIndex: question.index,
+          conditionId: question.conditionId,
+          tokenId: question.noTokenId,
+          size: amount,
+          price: noCost > 0 ? avgPrice(question) * proceeds / noCost : proceeds / (selected.length * amount),
+        })),
+        received: out > 0
+          ? others.map((question) => ({
+            questionIndex: question.index,
+            conditionId: question.conditionId,
+            tokenId: question.yesTokenId,
+            size: out,
+            price: yesCost / (others.length * out),
+          }))
+          : [],
+        usdc,
+        fee: toAmount(rawFee),
+      },
+      indexSet,
+      rawAmount,
+    };
+  }
+
+  /**
+   * Re-derive every leg's position and flag it as neg-risk
+   */
+  private async refresh(userId: string, tokenIds: string[]): Promise<Position[]> {
+    const refreshed: Position[] = [];
+    for (const tokenId of tokenIds) {
+      const position = await this.accounting.syncToken(userId, tokenId);
+      if (position) {
+        refreshed.push(await this.ctx.database.upsertPosition({ ...toUpsertInput(position), negativeRisk: true }));
+      }
+    }
+    return refreshed;
+  }
+}
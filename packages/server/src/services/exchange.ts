@@ -0,0 +1,160 @@
+/**
+ * Exchange - Where trade services send orders
+ *
+ * The live server talks to the Polymarket CLOB. In paper mode the same
+ * services run against the in-process PaperExchange instead, so paper
+ * trades go through identical validation, risk checks and persistence.
+ */
+
+import type { ethers } from 'ethers';
+import type { Order } from '@quantish/types';
+import {
+  CLOB_MAX_BATCH_ORDERS,
+  type ClobCancelResponse,
+  type ClobOpenOrder,
+  type ClobOrderBook,
+  type ClobOrderResponse,
+  type ClobOrderType,
+  type ClobResponse,
+  type ClobTrade,
+  type SignedClobOrder,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import { ClobCredentialStore } from './clob-credentials';
+
+/** The user an exchange call acts for */
+export interface ExchangeAccount {
+  userId: string;
+  wallet: ethers.Wallet;
+}
+
+/** Market details the CLOB looks up itself but a simulated exchange needs */
+export interface ExchangeMarket {
+  conditionId: string;
+  negRisk: boolean;
+}
+
+/** One order of a batch submission */
+export interface ExchangeOrder {
+  order: SignedClobOrder;
+  orderType: ClobOrderType;
+  market: ExchangeMarket;
+}
+
+export interface Exchange {
+  /** True for the simulated paper exchange */
+  readonly paper: boolean;
+
+  getOrderBook(tokenId: string): Promise<ClobResponse<ClobOrderBook>>;
+  postOrder(
+    account: ExchangeAccount,
+    order: SignedClobOrder,
+    orderType: ClobOrderType,
+    market: ExchangeMarket
+  ): Promise<ClobResponse<ClobOrderResponse>>;
+  /**
+   * Submit several orders at once, returning one response per order in
+   * input order. Exchanges without a batch API leave this out and orders
+   * are posted one by one.
+   */
+  postOrders?(account: ExchangeAccount, orders: ExchangeOrder[]): Promise<Array<ClobResponse<ClobOrderResponse>>>;
+  cancelOrders(account: ExchangeAccount, orderIds: string[]): Promise<ClobResponse<ClobCancelResponse>>;
+  getOpenOrders(account: ExchangeAccount): Promise<ClobResponse<ClobOpenOrder[]>>;
+  getOrder(account: ExchangeAccount, orderId: string): Promise<ClobResponse<ClobOpenOrder | null>>;
+  getTrades(
+    account: ExchangeAccount,
+    params: { maker_address?: string; after?: number }
+  ): Promise<ClobResponse<ClobTrade[]>>;
+
+  /**
+   * Record fills the exchange matched while placing a stored order, and
+   * return the updated order. Only exchanges that know their trades
+   * immediately implement this; otherwise reconciliation picks them up.
+   */
+  recordFills?(order: Order): Promise<Order>;
+}
+
+/**
+ * The Polymarket CLOB, authenticated with per-user derived credentials
+ */
+export class ClobExchange implements Exchange {
+  readonly paper = false;
+
+  constructor(
+    private readonly ctx: Pick<ServerContext, 'clob'>,
+    private readonly credentials: ClobCredentialStore = new ClobCredentialStore(ctx)
+  ) {}
+
+  getOrderBook(tokenId: string): Promise<ClobResponse<ClobOrderBook>> {
+    return this.ctx.clob.getOrderBook(tokenId);
+  }
+
+  async postOrder(
+    account: ExchangeAccount,
+    order: SignedClobOrder,
+    orderType: ClobOrderType
+  ): Promise<ClobResponse<ClobOrderResponse>> {
+    const credentials = await this.credentials.get(account.userId, account.wallet);
+    return this.checkAuth(account, await this.ctx.clob.postOrder(credentials, order, orderType));
+  }
+
+  /**
+   * Post in chunks of CLOB_MAX_BATCH_ORDERS. A failed request fails every
+   * order in its chunk; the CLOB's per-order rejections come back as
+   * unsuccessful responses carrying the order result.
+   */
+  async postOrders(account: ExchangeAccount, orders: ExchangeOrder[]): Promise<Array<ClobResponse<ClobOrderResponse>>> {
+    const credentials = await this.credentials.get(account.userId, account.wallet);
+    const results: Array<ClobResponse<ClobOrderResponse>> = [];
+
+    for (let i = 0; i < orders.length; i += CLOB_MAX_BATCH_ORDERS) {
+      const chunk = orders.slice(i, i + CLOB_MAX_BATCH_ORDERS);
+      const response = this.checkAuth(account, await this.ctx.clob.postOrders(credentials, chunk));
+      if (!response.success || !response.data) {
+        results.push(...chunk.map(() => ({ success: false, status: response.status, error: response.error })));
+        continue;
+      }
+
+      for (const data of response.data) {
+        results.push(data.success
+          ? { success: true, status: response.status, data }
+          : { success: false, status: response.status, data, error: data.errorMsg || 'CLOB rejected the order' });
+      }
+    }
+
+    return results;
+  }
+
+  async cancelOrders(account: ExchangeAccount, orderIds: string[]): Promise<ClobResponse<ClobCancelResponse>> {
+    const credentials = await this.credentials.get(account.userId, account.wallet);
+    return this.checkAuth(account, await this.ctx.clob.cancelOrders(account.wallet.address, credentials, orderIds));
+  }
+
+  async getOpenOrders(account: ExchangeAccount): Promise<ClobResponse<ClobOpenOrder[]>> {
+    const credentials = await this.credentials.get(account.userId, account.wallet);
+    return this.checkAuth(account, await this.ctx.clob.getOpenOrders(account.wallet.address, credentials));
+  }
+
+  async getOrder(account: ExchangeAccount, orderId: string): Promise<ClobResponse<ClobOpenOrder | null>> {
+    const credentials = await this.credentials.get(account.userId, account.wallet);
+    return this.checkAuth(account, await this.ctx.clob.getOrder(account.wallet.address, credentials, orderId));
+  }
+
+  async getTrades(
+    account: ExchangeAccount,
+    params: { maker_address?: string; after?: number }
+  ): Promise<ClobResponse<ClobTrade[]>> {
+    const credentials = await this.credentials.get(account.userId, account.wallet);
+    return this.checkAuth(account, await this.ctx.clob.getTrades(account.wallet.address, credentials, params));
+  }
+
+  /**
+   * Drop cached credentials the CLOB no longer accepts
+   */
+  private checkAuth<T>(account: ExchangeAccount, response: ClobResponse<T>): ClobResponse<T> {
+    if (response.status === 401) {
+      this.credentials.invalidate(account.userId);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Key Export - Hand users their private key, wrapped in their own passphrase
+ *
+ * Export is a two-step flow. A signed request first obtains a short-lived,
+ * single-use confirmation token; a second signed request presents the token
+ * and a passphrase and receives an encrypted keystore JSON. Raw hex is never
+ * returned.
+ */
+
+import * as crypto from 'crypto';
+import { AuthenticationError, ValidationError } from '@quantish/types';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+
+export interface ExportConfirmation {
+  /** Single-use token to present to the export call */
+  confirmationToken: string;
+  /** When the token stops being accepted */
+  expiresAt: Date;
+}
+
+export interface KeyExportResult {
+  /** EOA address of the exported key */
+  address: string;
+  /** Encrypted JSON keystore (Web3 Secret Storage v3) */
+  keystore: string;
+}
+
+interface PendingExport {
+  userId: string;
+  expiresAt: number;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export class KeyExportService {
+  /** Pending confirmations keyed by token hash */
+  private readonly pending: Map<string, PendingExport> = new Map();
+
+  constructor(
+    private readonly ctx: Pick<ServerContext, 'database' | 'keyVault'>,
+    private readonly tokenTtl: number = 5 * 60 * 1000
+  ) {}
+
+  /**
+   * Issue a confirmation token for a user
+   */
+  async requestExport(userId: string): Promise<ExportConfirmation> {
+    this.prune();
+
+    // Only one outstanding confirmation per user
+    for (const [hash, entry] of this.pending) {
+      if (entry.userId === userId) {
+        this.pending.delete(hash);
+      }
+    }
+
+    const confirmationToken = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = Date.now() + this.tokenTtl;
+    this.pending.set(this.hashToken(confirmationToken), { userId, expiresAt });
+
+    await this.ctx.database.logActivity({
+      userId,
+      action: 'wallet.export.request',
+      resource: 'wallet',
+      success: true,
+    });
+
+    return { confirmationToken, expiresAt: new Date(expiresAt) };
+  }
+
+  /**
+   * Consume a confirmation token and export the key as an encrypted keystore
+   */
+  async exportKey(userId: string, confirmationToken: string, passphrase: string): Promise<KeyExportResult> {
+    if (typeof passphrase !== 'string' || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new ValidationError(`\`passphrase\` must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+
+    this.prune();
+    const hash = this.hashToken(confirmationToken);
+    const entry = this.pending.get(hash);
+
+    if (!entry || entry.userId !== userId) {
+      await this.ctx.database.logActivity({
+        userId,
+        action: 'wallet.export',
+        resource: 'wallet',
+        success: false,
+        errorMessage: 'Invalid or expired confirmation token',
+      });
+      throw new AuthenticationError('Invalid or expired confirmation token');
+    }
+
+    // Single use, even if the export below fails
+    this.pending.delete(hash);
+
+    const { wallet } = await loadUserSigner(this.ctx, userId);
+    const keystore = await wallet.encrypt(passphrase);
+
+    await this.ctx.database.logActivity({
+      userId,
+      action: 'wallet.export',
+      resource: 'wallet',
+      resourceId: wallet.address,
+      success: true,
+    });
+
+    return { address: wallet.address, keystore };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(String(token)).digest('hex');
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [hash, entry] of this.pending) {
+      if (entry.expiresAt <= now) {
+        this.pending.delete(hash);
+      }
+    }
+  }
+}
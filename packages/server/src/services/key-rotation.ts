@@ -0,0 +1,101 @@
+/**
+ * Key Rotation - Re-encrypt stored private keys under the current key
+ *
+ * Covers master key rotation, KEK rotation and migrating master-key data to
+ * envelope encryption: anything KeyVault reports as needing re-encryption.
+ *
+ * Users are walked in id order in batches. Each user is updated on its own and
+ * users already at the current key version are skipped, so an interrupted run
+ * can simply be started again.
+ */
+
+import type { DatabaseAdapter } from '@quantish/types';
+import type { KeyVault } from '@quantish/core';
+import { toEncryptedData } from './signer';
+
+export interface KeyRotationOptions {
+  /** Users fetched per batch (default: 100) */
+  batchSize?: number;
+  /** Resume after this user id */
+  afterId?: string;
+  /** Called after each batch */
+  onProgress?: (progress: KeyRotationProgress) => void;
+}
+
+export interface KeyRotationProgress {
+  /** Users examined so far */
+  scanned: number;
+  /** Users re-encrypted so far */
+  rotated: number;
+  /** Users already at the current key version */
+  skipped: number;
+  /** Users that could not be re-encrypted */
+  failed: Array<{ userId: string; error: string }>;
+  /** Last user id processed, usable as afterId to resume */
+  lastUserId?: string;
+}
+
+/**
+ * Re-encrypt every user's private key with the key vault's current key
+ */
+export async function rotateUserKeys(
+  database: DatabaseAdapter,
+  keyVault: KeyVault,
+  options: KeyRotationOptions = {}
+): Promise<KeyRotationProgress> {
+  const batchSize = options.batchSize || 100;
+  const progress: KeyRotationProgress = {
+    scanned: 0,
+    rotated: 0,
+    skipped: 0,
+    failed: [],
+    lastUserId: options.afterId,
+  };
+
+  for (;;) {
+    const users = await database.listUsersWithKeys({
+      afterId: progress.lastUserId,
+      limit: batchSize,
+    });
+    if (users.length === 0) {
+      break;
+    }
+
+    for (const user of users) {
+      progress.scanned++;
+      progress.lastUserId = user.id;
+
+      const current = toEncryptedData(user);
+      if (!keyVault.needsReencryption(current)) {
+        progress.skipped++;
+        continue;
+      }
+
+      try {
+        const next = await keyVault.reencrypt(current);
+        await database.updateUserKey(user.id, {
+          encryptedPrivateKey: next.encrypted,
+          keyIv: next.iv,
+          keyAuthTag: next.authTag,
+          keyVersion: next.keyVersion ?? null,
+          wrappedDataKey: next.wrappedDataKey ?? null,
+          kekId: next.kekId ?? null,
+        });
+        progress.rotated++;
+      } catch (error) {
+        progress.failed.push({
+          userId: user.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    options.onProgress?.(progress);
+
+    if (users.length < batchSize) {
+      break;
+    }
+  }
+
+  return progress;
+}
@@ -0,0 +1,244 @@
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ValidationError, type Market } from '@quantish/types';
+import type { ClobOrderBook } from '@quantish/core';
+import {
+  CachedMarketDataProvider,
+  FileMarketDataProvider,
+  matchesMarketFilters,
+  parseMarketQuery,
+  type MarketDataProvider,
+  type MarketFilters,
+} from './market-data';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'markets.json');
+const FED = '0xaaaa000000000000000000000000000000000000000000000000000000000001';
+const WORLD_CUP = '0xaaaa000000000000000000000000000000000000000000000000000000000002';
+const SNOW = '0xaaaa000000000000000000000000000000000000000000000000000000000003';
+
+const ALL: MarketFilters = { limit: 50, offset: 0 };
+
+function market(overrides: Partial<Market> = {}): Market {
+  return {
+    conditionId: FED,
+    question: 'Will the Fed cut rates in December 2026?',
+    slug: 'fed-cut-december-2026',
+    tokens: [],
+    endDate: '2026-12-16T00:00:00Z',
+    volume: '250000',
+    liquidity: '40000',
+    ...overrides,
+  };
+}
+
+describe('parseMarketQuery', () => {
+  it('defaults to the first page of every market', () => {
+    expect(parseMarketQuery({})).toEqual({
+      text: undefined,
+      active: undefined,
+      endDateMin: undefined,
+      endDateMax: undefined,
+      volumeMin: undefined,
+      volumeMax: undefined,
+      limit: 50,
+      offset: 0,
+    });
+  });
+
+  it('parses every filter', () => {
+    const filters = parseMarketQuery({
+      text: '  fed  ',
+      active: 'false',
+      endDateMin: '2026-01-01',
+      endDateMax: '2026-12-31T23:59:59Z',
+      volumeMin: '1000',
+      volumeMax: '500000',
+      limit: '20',
+      offset: '40',
+    });
+
+    expect(filters).toEqual({
+      text: 'fed',
+      active: false,
+      endDateMin: new Date('2026-01-01'),
+      endDateMax: new Date('2026-12-31T23:59:59Z'),
+      volumeMin: 1000,
+      volumeMax: 500000,
+      limit: 20,
+      offset: 40,
+    });
+  });
+
+  it.each([
+    [{ text: ['a', 'b'] }, '`text` must be a string'],
+    [{ active: 'yes' }, '`active` must be "true" or "false"'],
+    [{ limit: '0' }, '`limit` must be an integer between 1 and 200'],
+    [{ limit: '201' }, '`limit` must be an integer between 1 and 200'],
+    [{ limit: '1.5' }, '`limit` must be an integer between 1 and 200'],
+    [{ offset: '-1' }, '`offset` must be a non-negative integer'],
+    [{ endDateMin: 'soon' }, '`endDateMin` must be an ISO 8601 date'],
+    [{ volumeMin: '' }, '`volumeMin` must be a non-negative number'],
+    [{ volumeMax: '-5' }, '`volumeMax` must be a non-negative number'],
+    [{ endDateMin: '2026-12-31', endDateMax: '2026-01-01' }, '`endDateMin` must not be after `endDateMax`'],
+    [{ volumeMin: '10', volumeMax: '5' }, '`volumeMin` must not be above `volumeMax`'],
+  ])('rejects %j', (query, message) => {
+    expect(() => parseMarketQuery(query)).toThrow(ValidationError);
+    expect(() => parseMarketQuery(query)).toThrow(message);
+  });
+});
+
+describe('matchesMarketFilters', () => {
+  it('matches text against the question or slug, ignoring case', () => {
+    expect(matchesMarketFilters(market(), { ...ALL, text: 'FED CUT' })).toBe(true);
+    expect(matchesMarketFilters(market(), { ...ALL, text: 'december-2026' })).toBe(true);
+    expect(matchesMarketFilters(market(), { ...ALL, text: 'election' })).toBe(false);
+  });
+
+  it('treats a market without `active` as open', () => {
+    expect(matchesMarketFilters(market(), { ...ALL, active: true })).toBe(true);
+    expect(matchesMarketFilters(market(), { ...ALL, active: false })).toBe(false);
+    expect(matchesMarketFilters(market({ active: false }), { ...ALL, active: false })).toBe(true);
+  });
+
+  it('bounds the end date inclusively and drops markets without one', () => {
+    const december: MarketFilters = {
+      ...ALL,
+      endDateMin: new Date('2026-12-01T00:00:00Z'),
+      endDateMax: new Date('2026-12-16T00:00:00Z'),
+    };
+    expect(matchesMarketFilters(market(), december)).toBe(true);
+    expect(matchesMarketFilters(market({ endDate: '2026-11-30T00:00:00Z' }), december)).toBe(false);
+    expect(matchesMarketFilters(market({ endDate: '' }), december)).toBe(false);
+  });
+
+  it('bounds volume inclusively, counting an unparseable volume as zero', () => {
+    expect(matchesMarketFilters(market(), { ...ALL, volumeMin: 250000, volumeMax: 250000 })).toBe(true);
+    expect(matchesMarketFilters(market(), { ...ALL, volumeMin: 250001 })).toBe(false);
+    expect(matchesMarketFilters(market({ volume: 'n/a' }), { ...ALL, volumeMax: 0 })).toBe(true);
+  });
+});
+
+describe('FileMarketDataProvider', () => {
+  const provider = new FileMarketDataProvider(FIXTURE);
+
+  it('lists markets by volume and fills in defaults', async () => {
+    const markets = await provider.listMarkets(ALL);
+
+    expect(markets.map((entry) => entry.conditionId)).toEqual([WORLD_CUP, FED, SNOW]);
+    expect(markets[2]).toMatchObject({ slug: '', liquidity: '0', active: true, negRisk: false });
+  });
+
+  it('filters and pages', async () => {
+    const open = await provider.listMarkets({ ...ALL, active: true });
+    expect(open.map((entry) => entry.conditionId)).toEqual([FED, SNOW]);
+
+    const page = await provider.listMarkets({ ...ALL, active: true, limit: 1, offset: 1 });
+    expect(page.map((entry) => entry.conditionId)).toEqual([SNOW]);
+  });
+
+  it('finds a market by condition id in any case', async () => {
+    expect((await provider.getMarket(FED.replace('aaaa', 'AAAA')))?.slug).toBe('fed-cut-december-2026');
+    expect(await provider.getMarket(`0x${'0'.repeat(64)}`)).toBeNull();
+  });
+
+  it('serves books with their spread', async () => {
+    expect((await provider.getOrderBook('1001'))?.spread).toBeCloseTo(0.02);
+    expect((await provider.getOrderBook('3001'))?.spread).toBe(0);
+    expect(await provider.getOrderBook('1002')).toBeNull();
+  });
+});
+
+describe('CachedMarketDataProvider', () => {
+  const book = { market: FED, asset_id: '1001', bids: [], asks: [], spread: 0 } as ClobOrderBook;
+  let upstream: { [K in keyof MarketDataProvider]: ReturnType<typeof vi.fn> };
+  let cache: CachedMarketDataProvider;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    upstream = {
+      listMarkets: vi.fn().mockResolvedValue([market()]),
+      getMarket: vi.fn().mockResolvedValue(market()),
+      getOrderBook: vi.fn().mockResolvedValue(book),
+    };
+    cache = new CachedMarketDataProvider(upstream as unknown as MarketDataProvider, 30000, 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves listings and markets from cache until the TTL runs out', async () => {
+    await cache.listMarkets(ALL);
+    await cache.getMarket(FED.replace('aaaa', 'AAAA'));
+    vi.advanceTimersByTime(29999);
+    await cache.listMarkets({ ...ALL });
+    await cache.getMarket(FED);
+
+    expect(upstream.listMarkets).toHaveBeenCalledTimes(1);
+    expect(upstream.getMarket).toHaveBeenCalledTimes(1);
+    expect(upstream.getMarket).toHaveBeenCalledWith(FED);
+
+    vi.advanceTimersByTime(1);
+    await cache.listMarkets(ALL);
+    await cache.getMarket(FED);
+
+    expect(upstream.listMarkets).toHaveBeenCalledTimes(2);
+    expect(upstream.getMarket).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches each filter set separately', async () => {
+    await cache.listMarkets(ALL);
+    await cache.listMarkets({ ...ALL, text: 'fed' });
+
+    expect(upstream.listMarkets).toHaveBeenCalledTimes(2);
+  });
+
+  it('expires books on their own TTL', async () => {
+    await cache.getOrderBook('1001');
+    vi.advanceTimersByTime(999);
+    await cache.getOrderBook('1001');
+    expect(upstream.getOrderBook).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await cache.getOrderBook('1001');
+    expect(upstream.getOrderBook).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one upstream request between concurrent misses', async () => {
+    const [first, second] = await Promise.all([cache.getMarket(FED), cache.getMarket(FED)]);
+
+    expect(first).toBe(second);
+    expect(upstream.getMarket).toHaveBeenCalledTimes(1);
+  });
+
+  it('evicts a failed lookup so the next call retries', async () => {
+    upstream.getMarket.mockRejectedValueOnce(new Error('Gamma is down'));
+
+    await expect(cache.getMarket(FED)).rejects.toThrow('Gamma is down');
+    await expect(cache.getMarket(FED)).resolves.toEqual(market());
+    expect(upstream.getMarket).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the oldest answers beyond the entry cap', async () => {
+    const small = new CachedMarketDataProvider(upstream as unknown as MarketDataProvider, 30000, 1000, 2);
+    await small.listMarkets({ ...ALL, text: 'first' });
+    await small.listMarkets({ ...ALL, text: 'second' });
+    await small.listMarkets({ ...ALL, text: 'third' });
+    expect(upstream.listMarkets).toHaveBeenCalledTimes(3);
+
+    await small.listMarkets({ ...ALL, text: 'second' });
+    await small.listMarkets({ ...ALL, text: 'third' });
+    expect(upstream.listMarkets).toHaveBeenCalledTimes(3);
+
+    await small.listMarkets({ ...ALL, text: 'first' });
+    expect(upstream.listMarkets).toHaveBeenCalledTimes(4);
+  });
+
+  it('drops everything on clear', async () => {
+    await cache.getMarket(FED);
+    cache.clear();
+    await cache.getMarket(FED);
+
+    expect(upstream.getMarket).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Market Data - Market listings and order books behind a pluggable provider
+ *
+ * GammaMarketDataProvider reads markets from Polymarket's Gamma API and books
+ * from the CLOB (or any OrderBookSource). FileMarketDataProvider serves a
+ * fixture file, for tests and offline development. CachedMarketDataProvider
+ * wraps either with a TTL cache, since market listings change slowly and
+ * clients poll them.
+ */
+
+import * as fs from 'fs';
+import { QuantishError, ValidationError, type Market, type MarketToken } from '@quantish/types';
+import type { ClobOrderBook } from '@quantish/core';
+import { withSpread, type OrderBookSource } from './paper-books';
+
+export interface MarketFilters {
+  /** Case-insensitive match on the question or slug */
+  text?: string;
+  /** Only markets open (true) or closed (false) for trading */
+  active?: boolean;
+  endDateMin?: Date;
+  endDateMax?: Date;
+  /** Lifetime volume bounds, in USDC */
+  volumeMin?: number;
+  volumeMax?: number;
+  limit: number;
+  offset: number;
+}
+
+export interface MarketDataProvider {
+  /** Markets matching the filters, highest volume first */
+  listMarkets(filters: MarketFilters): Promise<Market[]>;
+  /** A market by condition id, or null if there is none */
+  getMarket(conditionId: string): Promise<Market | null>;
+  /** A token's order book, or null if it has none */
+  getOrderBook(tokenId: string): Promise<ClobOrderBook | null>;
+}
+
+export const POLYMARKET_GAMMA = 'https://gamma-api.polymarket.com';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function parseDate(name: string, value: unknown): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new ValidationError(`\`${name}\` must be an ISO 8601 date`, { [name]: value });
+  }
+  return date;
+}
+
+function parseVolume(name: string, value: unknown): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const volume = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  if (!Number.isFinite(volume) || volume < 0) {
+    throw new ValidationError(`\`${name}\` must be a non-negative number`, { [name]: value });
+  }
+  return volume;
+}
+
+/**
+ * Parse a market search query string, e.g.
+ * ?text=election&active=true&endDateMax=2026-12-31&volumeMin=10000&limit=20
+ */
+export function parseMarketQuery(query: Record<string, unknown>): MarketFilters {
+  const { text, active } = query;
+
+  if (text !== undefined && typeof text !== 'string') {
+    throw new ValidationError('`text` must be a string', { text });
+  }
+  if (active !== undefined && active !== 'true' && active !== 'false') {
+    throw new ValidationError('`active` must be "true" or "false"', { active });
+  }
+
+  const limit = query.limit !== undefined ? Number(query.limit) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`\`limit\` must be an integer between 1 and ${MAX_LIMIT}`, { limit: query.limit });
+  }
+  const offset = query.offset !== undefined ? Number(query.offset) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new ValidationError('`offset` must be a non-negative integer', { offset: query.offset });
+  }
+
+  const filters: MarketFilters = {
+    text: text?.trim() || undefined,
+    active: active === undefined ? undefined : active === 'true',
+    endDateMin: parseDate('endDateMin', query.endDateMin),
+    endDateMax: parseDate('endDateMax', query.endDateMax),
+    volumeMin: parseVolume('volumeMin', query.volumeMin),
+    volumeMax: parseVolume('volumeMax', query.volumeMax),
+    limit,
+    offset,
+  };
+  if (filters.endDateMin && filters.endDateMax && filters.endDateMin > filters.endDateMax) {
+    throw new ValidationError('`endDateMin` must not be after `endDateMax`');
+  }
+  if (filters.volumeMin !== undefined && filters.volumeMax !== undefined && filters.volumeMin > filters.volumeMax) {
+    throw new ValidationError('`volumeMin` must not be above `volumeMax`');
+  }
+  return filters;
+}
+
+/**
+ * Whether a market passes every filter except the page bounds
+ */
+export function matchesMarketFilters(market: Market, filters: MarketFilters): boolean {
+  if (filters.text) {
+    const text = filters.text.toLowerCase();
+    if (!market.question.toLowerCase().includes(text) && !market.slug.toLowerCase().includes(text)) {
+      return false;
+    }
+  }
+  if (filters.active !== undefined && (market.active ?? true) !== filters.active) {
+    return false;
+  }
+
+  if (filters.endDateMin || filters.endDateMax) {
+    const endDate = Date.parse(market.endDate);
+    if (isNaN(endDate)
+      || (filters.endDateMin && endDate < filters.endDateMin.getTime())
+      || (filters.endDateMax && endDate > filters.endDateMax.getTime())) {
+      return false;
+    }
+  }
+
+  const volume = Number(market.volume) || 0;
+  if (filters.volumeMin !== undefined && volume < filters.volumeMin) {
+    return false;
+  }
+  if (filters.volumeMax !== undefined && volume > filters.volumeMax) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================
+// Gamma
+// ============================================
+
+/** A market as returned by Gamma; list fields are JSON-encoded strings */
+interface GammaMarket {
+  conditionId: string;
+  question: string;
+  slug: string;
+  endDate?: string;
+  volume?: string;
+  liquidity?: string;
+  active?: boolean;
+  closed?: boolean;
+  negRisk?: boolean;
+  outcomes?: string;
+  outcomePrices?: string;
+  clobTokenIds?: string;
+}
+
+export interface GammaMarketDataProviderOptions {
+  /** Gamma API base URL (default: Polymarket's) */
+  endpoint?: string;
+  /** Order books, usually the ClobClient */
+  books: OrderBookSource;
+  /** Request timeout in ms (default: 10000) */
+  timeout?: number;
+}
+
+/** Markets fetched per Gamma request when searching by text */
+const GAMMA_PAGE_SIZE = 100;
+/** Markets scanned at most for one text search */
+const GAMMA_MAX_SCAN = 1000;
+
+function parseList(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const list = JSON.parse(value);
+    return Array.isArray(list) ? list.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toMarket(raw: GammaMarket): Market {
+  const outcomes = parseList(raw.outcomes);
+  const prices = parseList(raw.outcomePrices);
+  const tokens: MarketToken[] = parseList(raw.clobTokenIds).map((tokenId, index) => ({
+    tokenId,
+    outcome: outcomes[index] ?? '',
+    price: prices[index] ?? '0',
+  }));
+
+  return {
+    conditionId: raw.conditionId.toLowerCase(),
+    question: raw.question,
+    slug: raw.slug,
+    tokens,
+    endDate: raw.endDate ?? '',
+    volume: raw.volume ?? '0',
+    liquidity: raw.liquidity ?? '0',
+    active: !!raw.active && !raw.closed,
+    negRisk: !!raw.negRisk,
+  };
+}
+
+/**
+ * Gamma's own filters take everything but text, which it cannot search on
+ * its markets endpoint: text searches page through the volume-ordered
+ * results and match locally, up to GAMMA_MAX_SCAN markets.
+ */
+export class GammaMarketDataProvider implements MarketDataProvider {
+  private readonly endpoint: string;
+  private readonly books: OrderBookSource;
+  private readonly timeout: number;
+
+  constructor(options: GammaMarketDataProviderOptions) {
+    this.endpoint = (options.endpoint || POLYMARKET_GAMMA).replace(/\/$/, '');
+    this.books = options.books;
+    this.timeout = options.timeout ?? 10000;
+  }
+
+  async listMarkets(filters: MarketFilters): Promise<Market[]> {
+    if (!filters.text) {
+      return this.fetchMarkets(filters, filters.limit, filters.offset);
+    }
+
+    const matches: Market[] = [];
+    for (let scanned = 0; scanned < GAMMA_MAX_SCAN; scanned += GAMMA_PAGE_SIZE) {
+      const page = await this.fetchMarkets(filters, GAMMA_PAGE_SIZE, scanned);
+      matches.push(...page.filter((market) => matchesMarketFilters(market, filters)));
+      if (page.length < GAMMA_PAGE_SIZE || matches.length >= filters.offset + filters.limit) {
+        break;
+      }
+    }
+    return matches.slice(filters.offset, filters.offset + filters.limit);
+  }
+
+  async getMarket(conditionId: string): Promise<Market | null> {
+    const markets = await this.request(new URLSearchParams({ condition_ids: conditionId }));
+    const market = markets.find((candidate) => candidate.conditionId.toLowerCase() === conditionId.toLowerCase());
+    return market ? toMarket(market) : null;
+  }
+
+  async getOrderBook(tokenId: string): Promise<ClobOrderBook | null> {
+    const response = await this.books.getOrderBook(tokenId);
+    if (response.success && response.data) {
+      return response.data;
+    }
+    if (response.status === 404) {
+      return null;
+    }
+    throw new QuantishError(response.error || 'Could not load order book', 'CLOB_ERROR', 502, { tokenId });
+  }
+
+  private async fetchMarkets(filters: MarketFilters, limit: number, offset: number): Promise<Market[]> {
+    const params = new URLSearchParams({
+      limit: String(limit),
+      offset: String(offset),
+      order: 'volumeNum',
+      ascending: 'false',
+    });
+    if (filters.active !== undefined) {
+      params.set(filters.active ? 'active' : 'closed', 'true');
+      if (filters.active) {
+        params.set('closed', 'false');
+      }
+    }
+    if (filters.endDateMin) {
+      params.set('end_date_min', filters.endDateMin.toISOString());
+    }
+    if (filters.endDateMax) {
+      params.set('end_date_max', filters.endDateMax.toISOString());
+    }
+    if (filters.volumeMin !== undefined) {
+      params.set('volume_num_min', String(filters.volumeMin));
+    }
+    if (filters.volumeMax !== undefined) {
+      params.set('volume_num_max', String(filters.volumeMax));
+    }
+
+    return (await this.request(params)).map(toMarket);
+  }
+
+  private async request(params: URLSearchParams): Promise<GammaMarket[]> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.endpoint}/markets?${params}`, { signal: controller.signal });
+      if (!response.ok) {
+        throw new QuantishError(
+          `Gamma error: ${response.status} - ${await response.text()}`,
+          'MARKET_DATA_ERROR',
+          502
+        );
+      }
+      const data = await response.json();
+      return Array.isArray(data) ? data : [];
+    } catch (error) {
+      if (error instanceof QuantishError) {
+        throw error;
+      }
+      throw new QuantishError(
+        error instanceof Error ? error.message : 'Unknown Gamma error',
+        'MARKET_DATA_ERROR',
+        502
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+// ============================================
+// Fixture file
+// ============================================
+
+/** A fixture file: markets plus order books as returned by GET /book */
+export interface MarketDataFixture {
+  markets: Market[];
+  books?: Array<Omit<ClobOrderBook, 'spread'> & { spread?: number }>;
+}
+
+export class FileMarketDataProvider implements MarketDataProvider {
+  private readonly markets: Market[];
+  private readonly books: Map<string, ClobOrderBook> = new Map();
+
+  constructor(file: string) {
+    const fixture: MarketDataFixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!fixture || !Array.isArray(fixture.markets)) {
+      throw new Error(`Market fixture ${file} needs a markets array`);
+    }
+
+    for (const market of fixture.markets) {
+      if (typeof market.conditionId !== 'string' || typeof market.question !== 'string'
+        || !Array.isArray(market.tokens)) {
+        throw new Error('Each fixture market needs conditionId, question and tokens');
+      }
+    }
+    for (const book of fixture.books || []) {
+      if (typeof book.asset_id !== 'string' || !Array.isArray(book.bids) || !Array.isArray(book.asks)) {
+        throw new Error('Each fixture book needs asset_id, bids and asks');
+      }
+      this.books.set(book.asset_id, withSpread(book));
+    }
+
+    this.markets = fixture.markets
+      .map((market) => ({
+        ...market,
+        conditionId: market.conditionId.toLowerCase(),
+        slug: market.slug ?? '',
+        endDate: market.endDate ?? '',
+        volume: String(market.volume ?? 0),
+        liquidity: String(market.liquidity ?? 0),
+        active: market.active ?? true,
+        negRisk: market.negRisk ?? false,
+      }))
+      .sort((a, b) => Number(b.volume) - Number(a.volume));
+  }
+
+  async listMarkets(filters: MarketFilters): Promise<Market[]> {
+    return this.markets
+      .filter((market) => matchesMarketFilters(market, filters))
+      .slice(filters.offset, filters.offset + filters.limit);
+  }
+
+  async getMarket(conditionId: string): Promise<Market | null> {
+    return this.markets.find((market) => market.conditionId === conditionId.toLowerCase()) ?? null;
+  }
+
+  async getOrderBook(tokenId: string): Promise<ClobOrderBook | null> {
+    return this.books.get(tokenId) ?? null;
+  }
+}
+
+// ============================================
+// Cache
+// ============================================
+
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+/**
+ * Caches another provider's answers for a TTL; concurrent misses share one
+ * upstream request. Books move faster than listings and get their own TTL.
+ * Listings are keyed by their free-text filters too, so the cache holds at
+ * most maxEntries answers and evicts the oldest first.
+ */
+export class CachedMarketDataProvider implements MarketDataProvider {
+  private readonly cache: Map<string, CacheEntry> = new Map();
+
+  constructor(
+    private readonly provider: MarketDataProvider,
+    private readonly ttl: number = 30000,
+    private readonly bookTtl: number = 1000,
+    private readonly maxEntries: number = 1000
+  ) {}
+
+  listMarkets(filters: MarketFilters): Promise<Market[]> {
+    return this.cached(`list:${JSON.stringify(filters)}`, this.ttl, () => this.provider.listMarkets(filters));
+  }
+
+  getMarket(conditionId: string): Promise<Market | null> {
+    const id = conditionId.toLowerCase();
+    return this.cached(`market:${id}`, this.ttl, () => this.provider.getMarket(id));
+  }
+
+  getOrderBook(tokenId: string): Promise<ClobOrderBook | null> {
+    return this.cached(`book:${tokenId}`, this.bookTtl, () => this.provider.getOrderBook(tokenId));
+  }
+
+  /**
+   * Drop every cached answer
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  private cached<T>(key: string, ttl: number, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.value as Promise<T>;
+    }
+
+    const value = load();
+    // Re-inserting moves the key to the end of the Map's insertion order
+    this.cache.delete(key);
+    this.cache.set(key, { expiresAt: now + ttl, value });
+
+    // Don't keep failed lookups around for the rest of the TTL
+    value.catch(() => {
+      if (this.cache.get(key)?.value === value) {
+        this.cache.delete(key);
+      }
+    });
+
+    this.prune(now);
+    return value;
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(key);
+      }
+    }
+    for (const key of this.cache.keys()) {
+      if (this.cache.size <= this.maxEntries) {
+        break;
+      }
+      this.cache.delete(key);
+    }
+  }
+}
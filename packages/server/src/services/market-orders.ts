@@ -0,0 +1,239 @@
+/**
+ * Market Orders - Buy or sell by dollar amount or share count
+ *
+ * The current order book is walked to find how deep the order reaches
+ * within the allowed slippage from the best price. The order is then placed
+ * as a FOK/FAK limit at the worst price reached.
+ */
+
+import {
+  QuantishError,
+  ValidationError,
+  type OrderBook,
+  type OrderBookEntry,
+  type OrderSide,
+} from '@quantish/types';
+import type { Exchange } from './exchange';
+import {
+  parseMarketRef,
+  toNumber,
+  TICK_SIZES,
+  type OrderService,
+  type PlaceOrderResult,
+  type TickSize,
+} from './orders';
+
+export interface MarketOrderInput {
+  conditionId: string;
+  tokenId: string;
+  side: OrderSide;
+  /** USDC to spend (BUY) or receive (SELL); exclusive with shares */
+  amount?: number;
+  /** Shares to buy or sell; exclusive with amount */
+  shares?: number;
+  type: 'FOK' | 'FAK';
+  /** Max fractional distance of the limit price from the best price, e.g. 0.05 */
+  maxSlippage: number;
+  /** Defaults to the order book's neg_risk flag */
+  negRisk?: boolean;
+}
+
+export interface MarketOrderPlan {
+  /** Worst price the order may fill at */
+  limitPrice: number;
+  /** Shares to put in the order */
+  size: number;
+  /** Best price on the book when planned */
+  bestPrice: number;
+  expectedAvgPrice: number;
+  expectedNotional: number;
+  /** Whether the book had enough depth within slippage for the full request */
+  complete: boolean;
+}
+
+export interface MarketOrderResult extends PlaceOrderResult {
+  limitPrice: number;
+  bestPrice: number;
+  expectedAvgPrice: number;
+  expectedSize: number;
+  /** Average price actually filled at, null when nothing matched immediately */
+  actualAvgPrice: number | null;
+  actualSize: number | null;
+}
+
+const EPSILON = 1e-9;
+
+function floorTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.floor(value * factor + EPSILON) / factor;
+}
+
+/**
+ * Validate and normalize a buy/sell request body
+ */
+export function parseMarketOrderInput(
+  body: unknown,
+  side: OrderSide,
+  defaultMaxSlippage: number
+): MarketOrderInput {
+  const input = (body || {}) as Record<string, unknown>;
+  const { conditionId, tokenId } = parseMarketRef(input);
+  const { type = 'FOK', negRisk } = input;
+
+  const amount = input.amount !== undefined ? toNumber(input.amount) : undefined;
+  const shares = input.shares !== undefined ? toNumber(input.shares) : undefined;
+  const maxSlippage = input.maxSlippage !== undefined ? toNumber(input.maxSlippage) : defaultMaxSlippage;
+
+  if ((amount === undefined) === (shares === undefined)) {
+    throw new ValidationError('Provide exactly one of `amount` (USDC) or `shares`');
+  }
+  if (amount !== undefined && !(typeof amount === 'number' && amount > 0)) {
+    throw new ValidationError('`amount` must be a positive number', { amount: input.amount });
+  }
+  if (shares !== undefined && !(typeof shares === 'number' && shares > 0)) {
+    throw new ValidationError('`shares` must be a positive number', { shares: input.shares });
+  }
+  if (type !== 'FOK' && type !== 'FAK') {
+    throw new ValidationError('`type` must be "FOK" or "FAK"', { type });
+  }
+  if (typeof maxSlippage !== 'number' || !(maxSlippage >= 0 && maxSlippage < 1)) {
+    throw new ValidationError('`maxSlippage` must be a fraction between 0 and 1', { maxSlippage: input.maxSlippage });
+  }
+  if (negRisk !== undefined && typeof negRisk !== 'boolean') {
+    throw new ValidationError('`negRisk` must be a boolean', { negRisk });
+  }
+
+  return { conditionId, tokenId, side, amount, shares, type, maxSlippage, negRisk };
+}
+
+/**
+ * Walk the book to find the limit price and size for a market order
+ *
+ * BUY orders consume asks from the lowest price up, SELL orders consume bids
+ * from the highest price down, stopping at the slippage bound.
+ */
+export function planMarketOrder(
+  book: Pick<OrderBook, 'bids' | 'asks'>,
+  input: Pick<MarketOrderInput, 'side' | 'amount' | 'shares' | 'maxSlippage'>
+): MarketOrderPlan {
+  const buying = input.side === 'BUY';
+  const levels = (buying ? book.asks : book.bids)
+    .map((entry: OrderBookEntry) => ({ price: Number(entry.price), size: Number(entry.size) }))
+    .filter((level) => level.price > 0 && level.size > 0)
+    .sort((a, b) => (buying ? a.price - b.price : b.price - a.price));
+
+  if (levels.length === 0) {
+    throw new QuantishError(`No ${buying ? 'asks' : 'bids'} on the order book`, 'INSUFFICIENT_LIQUIDITY', 400);
+  }
+
+  const bestPrice = levels[0].price;
+  const bound = buying ? bestPrice * (1 + input.maxSlippage) : bestPrice * (1 - input.maxSlippage);
+
+  let remaining = input.shares ?? input.amount!;
+  let filledShares = 0;
+  let notional = 0;
+  let limitPrice = bestPrice;
+
+  for (const level of levels) {
+    if (remaining <= EPSILON || (buying ? level.price > bound + EPSILON : level.price < bound - EPSILON)) {
+      break;
+    }
+
+    const take = Math.min(level.size, input.shares !== undefined ? remaining : remaining / level.price);
+    filledShares += take;
+    notional += take * level.price;
+    remaining -= input.shares !== undefined ? take : take * level.price;
+    limitPrice = level.price;
+  }
+
+  // The signed order authorizes size * limitPrice USDC, which must stay within a BUY budget
+  const size = buying && input.amount !== undefined
+    ? Math.min(floorTo(filledShares, 2), floorTo(input.amount / limitPrice, 2))
+    : floorTo(filledShares, 2);
+
+  return {
+    limitPrice,
+    size,
+    bestPrice,
+    expectedAvgPrice: filledShares > 0 ? notional / filledShares : bestPrice,
+    expectedNotional: notional,
+    complete: remaining <= EPSILON,
+  };
+}
+
+/**
+ * Average fill price from the CLOB's matched amounts
+ */
+function actualFill(side: OrderSide, result: PlaceOrderResult): { avgPrice: number; size: number } | null {
+  const making = Number(result.makingAmount);
+  const taking = Number(result.takingAmount);
+  if (!(making > 0 && taking > 0)) {
+    return null;
+  }
+
+  return side === 'BUY'
+    ? { avgPrice: making / taking, size: taking }
+    : { avgPrice: taking / making, size: making };
+}
+
+export class MarketOrderService {
+  constructor(
+    private readonly exchange: Pick<Exchange, 'getOrderBook'>,
+    private readonly orders: OrderService
+  ) {}
+
+  /**
+   * Plan a market order against the live book and place it
+   */
+  async execute(userId: string, input: MarketOrderInput): Promise<MarketOrderResult> {
+    const response = await this.exchange.getOrderBook(input.tokenId);
+    if (!response.success || !response.data) {
+      throw new QuantishError(response.error || 'Could not load order book', 'CLOB_ERROR', 502);
+    }
+    const book = response.data;
+
+    const plan = planMarketOrder(book, input);
+    if (plan.size < 0.01) {
+      throw new QuantishError('Not enough liquidity within slippage to place an order', 'INSUFFICIENT_LIQUIDITY', 400, {
+        bestPrice: plan.bestPrice,
+        maxSlippage: input.maxSlippage,
+      });
+    }
+    if (!plan.complete && input.type === 'FOK') {
+      throw new QuantishError(
+        'Order book cannot fill the full order within slippage; use FAK to accept a partial fill',
+        'INSUFFICIENT_LIQUIDITY',
+        400,
+        {
+          bestPrice: plan.bestPrice,
+          limitPrice: plan.limitPrice,
+          availableShares: plan.size,
+          availableNotional: plan.expectedNotional,
+        }
+      );
+    }
+
+    const tickSize = TICK_SIZES.includes(book.tick_size as TickSize) ? (book.tick_size as TickSize) : '0.01';
+    const result = await this.orders.placeOrder(userId, {
+      conditionId: input.conditionId,
+      tokenId: input.tokenId,
+      side: input.side,
+      type: input.type,
+      price: plan.limitPrice,
+      size: plan.size,
+      negRisk: input.negRisk ?? book.neg_risk === true,
+      tickSize,
+    }, { book });
+
+    const fill = actualFill(input.side, result);
+    return {
+      ...result,
+      limitPrice: plan.limitPrice,
+      bestPrice: plan.bestPrice,
+      expectedAvgPrice: plan.expectedAvgPrice,
+      expectedSize: plan.size,
+      actualAvgPrice: fill?.avgPrice ?? null,
+      actualSize: fill?.size ?? null,
+    };
+  }
+}
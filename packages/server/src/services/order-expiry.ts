@@ -0,0 +1,219 @@
+/**
+ * Order Expiry - Expire GTD orders once their expiration passes
+ *
+ * The exchange stops matching a GTD order after its expiration, but we may
+ * never hear about it. The scheduler finds open GTD orders past expiresAt,
+ * marks them EXPIRED and then cancels them on the CLOB.
+ *
+ * Marking comes first: an order that is already EXPIRED is never selected
+ * again, so restarts and overlapping runs cannot cancel it twice. If the
+ * cancel itself fails, the order stays EXPIRED; the exchange will not match
+ * it past its expiration anyway.
+ */
+
+import { InvalidOrderTransitionError, type Order } from '@quantish/types';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import type { Exchange } from './exchange';
+
+export interface OrderExpiryOptions {
+  /** Time between runs in ms (default: 10000) */
+  intervalMs?: number;
+}
+
+export interface OrderExpiryResult {
+  /** Orders marked EXPIRED */
+  expired: number;
+  /** Expired orders the CLOB confirmed as cancelled */
+  cancelled: number;
+  /** Expired orders whose CLOB cancel failed */
+  failed: Array<{ orderId: string; error: string }>;
+}
+
+const BATCH_SIZE = 100;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class OrderExpiryScheduler {
+  private readonly intervalMs: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<OrderExpiryResult> | null = null;
+  private stopped = true;
+
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly exchange: Exchange,
+    options: OrderExpiryOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 10000;
+  }
+
+  /**
+   * Run every intervalMs; a run never overlaps the previous one
+   */
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.schedule();
+  }
+
+  /**
+   * Stop scheduling and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Order expiry failed:', error);
+      }
+      if (!this.stopped) {
+        this.schedule();
+      }
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Expire every open GTD order whose expiration has passed
+   */
+  runOnce(now: Date = new Date()): Promise<OrderExpiryResult> {
+    if (!this.running) {
+      this.running = this.expireAll(now).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async expireAll(now: Date): Promise<OrderExpiryResult> {
+    const result: OrderExpiryResult = { expired: 0, cancelled: 0, failed: [] };
+
+    for (;;) {
+      const batch = await this.ctx.database.listExpiredOrders(now, BATCH_SIZE);
+      const claimed = await this.claim(batch);
+      result.expired += claimed.length;
+
+      const byUser = new Map<string, Order[]>();
+      for (const order of claimed) {
+        byUser.set(order.userId, [...(byUser.get(order.userId) || []), order]);
+      }
+      for (const [userId, orders] of byUser) {
+        const outcome = await this.cancel(userId, orders);
+        result.cancelled += outcome.cancelled;
+        result.failed.push(...outcome.failed);
+      }
+
+      // Orders that could not be claimed would be selected again; stop rather than spin
+      if (batch.length < BATCH_SIZE || claimed.length === 0) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Mark orders EXPIRED, skipping any that reached a final status meanwhile
+   */
+  private async claim(orders: Order[]): Promise<Order[]> {
+    const claimed: Order[] = [];
+    for (const order of orders) {
+      try {
+        claimed.push(await this.ctx.database.updateOrder(order.id, { status: 'EXPIRED' }));
+      } catch (error) {
+        if (!(error instanceof InvalidOrderTransitionError)) {
+          console.error(`Could not expire order ${order.id}:`, error);
+        }
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Cancel a user's expired orders on the CLOB and record the outcome
+   */
+  private async cancel(
+    userId: string,
+    orders: Order[]
+  ): Promise<{ cancelled: number; failed: OrderExpiryResult['failed'] }> {
+    const { database } = this.ctx;
+    const failed: OrderExpiryResult['failed'] = [];
+    const canceled = new Set<string>();
+    let live = orders.filter((order) => !!order.clobOrderId);
+
+    try {
+      const { user, wallet } = await loadUserSigner(this.ctx, userId);
+      if (!!user.paper !== this.exchange.paper) {
+        // Paper orders on a live server (or the reverse) are only marked; their exchange is not ours
+        live = [];
+      }
+
+      for (let i = 0; i < live.length; i += BATCH_SIZE) {
+        const batch = live.slice(i, i + BATCH_SIZE);
+        const response = await this.exchange.cancelOrders(
+          { userId, wallet },
+          batch.map((order) => order.clobOrderId!)
+        );
+
+        for (const id of response.data?.canceled || []) {
+          canceled.add(id);
+        }
+        for (const order of batch) {
+          if (!canceled.has(order.clobOrderId!)) {
+            failed.push({
+              orderId: order.id,
+              error: response.data?.not_canceled[order.clobOrderId!] || response.error || 'CLOB did not cancel the order',
+            });
+          }
+        }
+      }
+    } catch (error) {
+      for (const order of live) {
+        if (!canceled.has(order.clobOrderId!) && !failed.some((f) => f.orderId === order.id)) {
+          failed.push({ orderId: order.id, error: errorMessage(error) });
+        }
+      }
+    }
+
+    const metadata = {
+      reason: 'expired',
+      orderIds: orders.map((order) => order.id),
+      cancelled: canceled.size,
+      failed: failed.length,
+    };
+
+    await database.createTransaction({
+      userId,
+      type: 'CANCEL_ORDER',
+      status: failed.length === 0 ? 'EXECUTED' : 'FAILED',
+      metadata,
+    });
+
+    await database.logActivity({
+      userId,
+      action: 'trade.expire',
+      resource: 'order',
+      resourceId: orders.length === 1 ? orders[0].id : undefined,
+      details: failed.length > 0 ? { ...metadata, errors: failed } : metadata,
+      success: failed.length === 0,
+      errorMessage: failed.length > 0 ? `${failed.length} of ${live.length} expired orders were not cancelled` : undefined,
+    });
+
+    return { cancelled: canceled.size, failed };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Order Query - Filtered, cursor-paginated order listing
+ *
+ * Cursors are opaque to clients: base64url JSON of the last order's
+ * createdAt/id plus the sort order they were issued for.
+ */
+
+import {
+  ORDER_STATUS_TRANSITIONS,
+  ValidationError,
+  type DatabaseAdapter,
+  type Order,
+  type OrderCursor,
+  type OrderFilters,
+  type OrderSide,
+  type OrderStatus,
+  type OrderType,
+} from '@quantish/types';
+
+export interface OrderQuery {
+  filters: Omit<OrderFilters, 'limit' | 'offset'>;
+  limit: number;
+}
+
+export interface OrderPage {
+  orders: Order[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
+const ORDER_STATUSES = Object.keys(ORDER_STATUS_TRANSITIONS) as OrderStatus[];
+const ORDER_SIDES: OrderSide[] = ['BUY', 'SELL'];
+const ORDER_TYPES: OrderType[] = ['GTC', 'GTD', 'FOK', 'FAK'];
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function encodeCursor(order: Order, sort: 'asc' | 'desc'): string {
+  return Buffer.from(JSON.stringify({ t: order.createdAt.toISOString(), i: order.id, s: sort })).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: 'asc' | 'desc'): OrderCursor {
+  let decoded: { t?: unknown; i?: unknown; s?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('`cursor` is invalid');
+  }
+
+  const createdAt = typeof decoded.t === 'string' ? new Date(decoded.t) : null;
+  if (!createdAt || isNaN(createdAt.getTime()) || typeof decoded.i !== 'string') {
+    throw new ValidationError('`cursor` is invalid');
+  }
+  if (decoded.s !== sort) {
+    throw new ValidationError('`cursor` was issued for a different sort order', { sort });
+  }
+  return { createdAt, id: decoded.i };
+}
+
+function parseDate(name: string, value: unknown): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new ValidationError(`\`${name}\` must be an ISO 8601 date`, { [name]: value });
+  }
+  return date;
+}
+
+/**
+ * Parse a list query string, e.g. ?status=LIVE,FILLED&side=BUY&sort=asc&limit=20
+ *
+ * `status` may be comma-separated or repeated.
+ */
+export function parseOrderQuery(query: Record<string, unknown>): OrderQuery {
+  const { side, type, conditionId, tokenId, sort = 'desc', cursor } = query;
+
+  let status: OrderStatus[] | undefined;
+  if (query.status !== undefined) {
+    status = ([] as unknown[]).concat(query.status)
+      .flatMap((value) => String(value).split(','))
+      .map((value) => value.trim()) as OrderStatus[];
+    const unknown = status.filter((value) => !ORDER_STATUSES.includes(value));
+    if (unknown.length > 0) {
+      throw new ValidationError(`\`status\` must be any of ${ORDER_STATUSES.join(', ')}`, { status: unknown });
+    }
+  }
+  if (side !== undefined && !ORDER_SIDES.includes(side as OrderSide)) {
+    throw new ValidationError('`side` must be "BUY" or "SELL"', { side });
+  }
+  if (type !== undefined && !ORDER_TYPES.includes(type as OrderType)) {
+    throw new ValidationError(`\`type\` must be one of ${ORDER_TYPES.join(', ')}`, { type });
+  }
+  if (conditionId !== undefined && (typeof conditionId !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(conditionId))) {
+    throw new ValidationError('`conditionId` must be a 32-byte hex string', { conditionId });
+  }
+  if (tokenId !== undefined && (typeof tokenId !== 'string' || !/^\d+$/.test(tokenId))) {
+    throw new ValidationError('`tokenId` must be a decimal string', { tokenId });
+  }
+  if (sort !== 'asc' && sort !== 'desc') {
+    throw new ValidationError('`sort` must be "asc" or "desc"', { sort });
+  }
+  if (cursor !== undefined && typeof cursor !== 'string') {
+    throw new ValidationError('`cursor` is invalid');
+  }
+
+  const limit = query.limit !== undefined ? Number(query.limit) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ValidationError(`\`limit\` must be an integer between 1 and ${MAX_LIMIT}`, { limit: query.limit });
+  }
+
+  return {
+    filters: {
+      status,
+      side: side as OrderSide | undefined,
+      type: type as OrderType | undefined,
+      conditionId: (conditionId as string | undefined)?.toLowerCase(),
+      tokenId: tokenId as string | undefined,
+      createdAfter: parseDate('createdAfter', query.createdAfter),
+      createdBefore: parseDate('createdBefore', query.createdBefore),
+      sort,
+      after: cursor ? decodeCursor(cursor, sort) : undefined,
+    },
+    limit,
+  };
+}
+
+/**
+ * Fetch one page of a user's orders
+ */
+export async function queryOrders(
+  database: DatabaseAdapter,
+  userId: string,
+  query: OrderQuery
+): Promise<OrderPage> {
+  // One extra row tells us whether another page exists
+  const rows = await database.listOrders(userId, { ...query.filters, limit: query.limit + 1 });
+  const orders = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+
+  return {
+    orders,
+    nextCursor: hasMore ? encodeCursor(orders[orders.length - 1], query.filters.sort ?? 'desc') : null,
+  };
+}
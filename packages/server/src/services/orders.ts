@@ -0,0 +1,347 @@
+/**
+ * Orders - Sign orders with the user's wallet and submit them to the CLOB
+ *
+ * Orders are signed by the user's EOA with their Safe as maker, so the
+ * exchange settles against the Safe's USDC and shares. Every order passes
+ * the risk engine before it is signed.
+ */
+
+import {
+  QuantishError,
+  ValidationError,
+  type Order,
+  type OrderBook,
+  type OrderSide,
+  type OrderStatus,
+  type OrderType,
+  type User,
+} from '@quantish/types';
+import type { ethers } from 'ethers';
+import {
+  buildOrder,
+  getExchangeAddress,
+  signOrder,
+  type ClobOrderResponse,
+  type ClobResponse,
+  type SignedClobOrder,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import { ClobExchange, type Exchange } from './exchange';
+import { RiskEngine } from './risk';
+
+export type TickSize = '0.1' | '0.01' | '0.001' | '0.0001';
+
+export interface PlaceOrderInput {
+  conditionId: string;
+  tokenId: string;
+  side: OrderSide;
+  type: OrderType;
+  /** Price per share, a multiple of tickSize */
+  price: number;
+  /** Number of shares, at most 2 decimal places */
+  size: number;
+  /** Whether the market settles through the neg-risk exchange */
+  negRisk: boolean;
+  tickSize: TickSize;
+  /** Unix seconds; required for GTD, not allowed otherwise */
+  expiration?: number;
+  feeRateBps?: number;
+}
+
+export interface PlaceOrderOptions {
+  /** Order book the caller already loaded, reused by risk checks */
+  book?: Pick<OrderBook, 'bids' | 'asks'>;
+}
+
+export interface PlaceOrderResult {
+  order: Order;
+  /** CLOB status: live, matched, delayed or unmatched */
+  clobStatus?: string;
+  transactionsHashes?: string[];
+  /** Amount given on a match (USDC for BUY, shares for SELL) */
+  makingAmount?: string;
+  /** Amount received on a match (shares for BUY, USDC for SELL) */
+  takingAmount?: string;
+}
+
+/** An order after submission, as stored */
+export interface SubmittedOrder {
+  order: Order;
+  /** The exchange's placement result, if it accepted the order */
+  placed?: ClobOrderResponse;
+}
+
+const ORDER_SIDES: OrderSide[] = ['BUY', 'SELL'];
+const ORDER_TYPES: OrderType[] = ['GTC', 'GTD', 'FOK', 'FAK'];
+export const TICK_SIZES: TickSize[] = ['0.1', '0.01', '0.001', '0.0001'];
+
+/** The CLOB rejects GTD orders expiring sooner than this */
+const MIN_GTD_LIFETIME_SECONDS = 60;
+
+export function toNumber(value: unknown): number {
+  return typeof value === 'string' && value.trim() !== '' ? Number(value) : (value as number);
+}
+
+function decimalPlaces(value: number): number {
+  const [, fraction = ''] = value.toString().split('.');
+  return fraction.length;
+}
+
+/**
+ * Validate the market a request refers to
+ */
+export function parseMarketRef(input: Record<string, unknown>): { conditionId: string; tokenId: string } {
+  const { conditionId, tokenId } = input;
+
+  if (typeof conditionId !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(conditionId)) {
+    throw new ValidationError('`conditionId` must be a 32-byte hex string', { conditionId });
+  }
+  if (typeof tokenId !== 'string' || !/^\d+$/.test(tokenId)) {
+    throw new ValidationError('`tokenId` must be a decimal string', { tokenId });
+  }
+
+  return { conditionId: conditionId.toLowerCase(), tokenId };
+}
+
+/**
+ * Validate and normalize an order request body
+ */
+export function parseOrderInput(body: unknown, now: number = Date.now()): PlaceOrderInput {
+  const input = (body || {}) as Record<string, unknown>;
+  const { conditionId, tokenId } = parseMarketRef(input);
+  const { side, type = 'GTC', negRisk = false, tickSize = '0.01' } = input;
+  const price = toNumber(input.price);
+  const size = toNumber(input.size);
+
+  if (!ORDER_SIDES.includes(side as OrderSide)) {
+    throw new ValidationError('`side` must be "BUY" or "SELL"', { side });
+  }
+  if (!ORDER_TYPES.includes(type as OrderType)) {
+    throw new ValidationError(`\`type\` must be one of ${ORDER_TYPES.join(', ')}`, { type });
+  }
+  if (typeof negRisk !== 'boolean') {
+    throw new ValidationError('`negRisk` must be a boolean', { negRisk });
+  }
+  if (!TICK_SIZES.includes(tickSize as TickSize)) {
+    throw new ValidationError(`\`tickSize\` must be one of ${TICK_SIZES.join(', ')}`, { tickSize });
+  }
+
+  const tick = Number(tickSize);
+  if (typeof price !== 'number' || !(price >= tick && price <= 1 - tick)) {
+    throw new ValidationError(`\`price\` must be between ${tick} and ${1 - tick}`, { price: input.price });
+  }
+  if (Math.abs(Math.round(price / tick) * tick - price) > 1e-9) {
+    throw new ValidationError(`\`price\` must be a multiple of the tick size ${tickSize}`, { price });
+  }
+  if (typeof size !== 'number' || !(size > 0) || decimalPlaces(size) > 2) {
+    throw new ValidationError('`size` must be a positive number with at most 2 decimal places', { size: input.size });
+  }
+
+  let expiration: number | undefined;
+  if (type === 'GTD') {
+    expiration = toNumber(input.expiration);
+    if (!Number.isInteger(expiration) || expiration < Math.floor(now / 1000) + MIN_GTD_LIFETIME_SECONDS) {
+      throw new ValidationError(
+        `\`expiration\` must be a unix timestamp at least ${MIN_GTD_LIFETIME_SECONDS}s in the future for GTD orders`,
+        { expiration: input.expiration }
+      );
+    }
+  } else if (input.expiration !== undefined) {
+    throw new ValidationError('`expiration` is only allowed for GTD orders', { type });
+  }
+
+  let feeRateBps: number | undefined;
+  if (input.feeRateBps !== undefined) {
+    feeRateBps = toNumber(input.feeRateBps);
+    if (!Number.isInteger(feeRateBps) || feeRateBps < 0) {
+      throw new ValidationError('`feeRateBps` must be a non-negative integer', { feeRateBps: input.feeRateBps });
+    }
+  }
+
+  return {
+    conditionId,
+    tokenId,
+    side: side as OrderSide,
+    type: type as OrderType,
+    price,
+    size,
+    negRisk,
+    tickSize: tickSize as TickSize,
+    expiration,
+    feeRateBps,
+  };
+}
+
+/**
+ * Map a CLOB placement status to our order status
+ */
+function toOrderStatus(clobStatus: string | undefined): OrderStatus {
+  switch (clobStatus) {
+    case 'live':
+      return 'LIVE';
+    case 'matched':
+      // Matched trades still have to settle; fills are recorded once the trades are known
+      return 'PENDING';
+    case 'unmatched':
+      // Marketable order that could not be matched (FOK/FAK)
+      return 'CANCELLED';
+    default:
+      return 'PENDING';
+  }
+}
+
+/**
+ * Ensure the wallet has finished setup and return the Safe address
+ *
+ * Paper users trade from their counterfactual Safe and need no setup.
+ */
+export function requireTradingReady(user: User): string {
+  if (user.paper && user.safeAddress) {
+    return user.safeAddress;
+  }
+  if (!user.safeAddress || !user.safeDeployed || !user.clobApiKeyCreated || !user.approvalsGranted) {
+    throw new QuantishError(
+      'Wallet is not ready to trade. Run POST /v1/wallet/setup first.',
+      'WALLET_NOT_READY',
+      409
+    );
+  }
+  return user.safeAddress;
+}
+
+/**
+ * The error for an order the exchange did not accept
+ */
+export function placementError(response: ClobResponse<ClobOrderResponse>, orderId: string): QuantishError {
+  // The CLOB reports order-level rejections either as a 4xx or as success: false
+  const rejected = response.data?.success === false
+    || (response.status !== undefined && response.status >= 400 && response.status < 500);
+  return new QuantishError(
+    response.error || 'CLOB rejected the order',
+    rejected ? 'ORDER_REJECTED' : 'CLOB_ERROR',
+    rejected ? 400 : 502,
+    { orderId }
+  );
+}
+
+export function toPlaceOrderResult(order: Order, placed: ClobOrderResponse): PlaceOrderResult {
+  return {
+    order,
+    clobStatus: placed.status,
+    transactionsHashes: placed.transactionsHashes,
+    makingAmount: placed.makingAmount,
+    takingAmount: placed.takingAmount,
+  };
+}
+
+export class OrderService {
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly exchange: Exchange = new ClobExchange(ctx),
+    private readonly risk: RiskEngine = new RiskEngine(ctx, exchange)
+  ) {}
+
+  /**
+   * Sign an order, submit it to the exchange and persist it
+   */
+  async placeOrder(userId: string, input: PlaceOrderInput, options: PlaceOrderOptions = {}): Promise<PlaceOrderResult> {
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const safeAddress = requireTradingReady(user);
+
+    // Held until the order is stored, so the next order's limits see it
+    const { order, placed, response } = await this.risk.guard(user, async () => {
+      await this.risk.check(user, input, { book: options.book });
+
+      const signed = await this.sign(wallet, safeAddress, input);
+      const response = await this.exchange.postOrder({ userId, wallet }, signed, input.type, {
+        conditionId: input.conditionId,
+        negRisk: input.negRisk,
+      });
+      return { ...(await this.record(userId, input, signed, response)), response };
+    });
+    if (!placed) {
+      throw placementError(response, order.id);
+    }
+    return toPlaceOrderResult(order, placed);
+  }
+
+  /**
+   * Sign an order for the user's Safe with their EOA
+   */
+  sign(wallet: ethers.Wallet, safeAddress: string, input: PlaceOrderInput): Promise<SignedClobOrder> {
+    return signOrder(
+      wallet,
+      buildOrder({
+        maker: safeAddress,
+        signer: wallet.address,
+        tokenId: input.tokenId,
+        side: input.side,
+        price: input.price,
+        size: input.size,
+        expiration: input.expiration,
+        feeRateBps: input.feeRateBps,
+      }),
+      { chainId: this.ctx.clob.chainId, verifyingContract: getExchangeAddress(input.negRisk) }
+    );
+  }
+
+  /**
+   * Persist a submitted order with the exchange's response, including any
+   * fills the exchange already reported
+   */
+  async record(
+    userId: string,
+    input: PlaceOrderInput,
+    signed: SignedClobOrder,
+    response: ClobResponse<ClobOrderResponse>
+  ): Promise<SubmittedOrder> {
+    const { database } = this.ctx;
+    const placed: ClobOrderResponse | undefined = response.success ? response.data : undefined;
+
+    let order = await database.createOrder({
+      userId,
+      conditionId: input.conditionId,
+      tokenId: input.tokenId,
+      side: input.side,
+      type: input.type,
+      price: input.price,
+      size: input.size,
+      clobOrderId: placed?.orderID,
+      status: placed ? toOrderStatus(placed.status) : 'FAILED',
+      expiresAt: input.expiration !== undefined ? new Date(input.expiration * 1000) : undefined,
+    });
+    if (placed && this.exchange.recordFills) {
+      order = await this.exchange.recordFills(order);
+    }
+
+    const metadata = {
+      orderId: order.id,
+      clobOrderId: placed?.orderID,
+      exchange: getExchangeAddress(input.negRisk),
+      makerAmount: signed.makerAmount,
+      takerAmount: signed.takerAmount,
+      ...(response.error && { error: response.error }),
+    };
+
+    await database.createTransaction({
+      userId,
+      type: 'PLACE_ORDER',
+      status: placed ? 'SUBMITTED' : 'FAILED',
+      txHash: placed?.transactionsHashes?.[0],
+      metadata,
+    });
+
+    await database.logActivity({
+      userId,
+      action: 'trade.order',
+      resource: 'order',
+      resourceId: order.id,
+      details: metadata,
+      success: !!placed,
+      errorMessage: response.error,
+    });
+
+    return { order, placed };
+  }
+}
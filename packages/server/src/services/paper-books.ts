@@ -0,0 +1,116 @@
+/**
+ * Paper Books - Order book snapshots for the paper exchange
+ *
+ * Live books come straight from the CLOB (any ClobClient is a source).
+ * FileBookSource replays snapshots recorded earlier: the replay clock starts
+ * at the first snapshot when the server starts, and each token's book is
+ * its latest snapshot at or before the replay time.
+ */
+
+import * as fs from 'fs';
+import type { ClobOrderBook, ClobResponse } from '@quantish/core';
+
+export interface OrderBookSource {
+  getOrderBook(tokenId: string): Promise<ClobResponse<ClobOrderBook>>;
+}
+
+/** A recorded book, as returned by GET /book plus when it was taken */
+export interface BookSnapshot extends ClobOrderBook {
+  /** Unix milliseconds */
+  timestamp: number | string;
+}
+
+export interface FileBookSourceOptions {
+  /** Replay speed multiplier (default: 1) */
+  speed?: number;
+  /** Replay start, for tests (default: now) */
+  now?: number;
+}
+
+/**
+ * Parse a JSON array or JSON-lines file of snapshots
+ */
+export function parseBookSnapshots(content: string): BookSnapshot[] {
+  const trimmed = content.trim();
+  const snapshots: BookSnapshot[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split('\n').filter((line) => line.trim() !== '').map((line) => JSON.parse(line));
+
+  for (const snapshot of snapshots) {
+    if (typeof snapshot.asset_id !== 'string' || !Array.isArray(snapshot.bids) || !Array.isArray(snapshot.asks)
+      || !Number.isFinite(Number(snapshot.timestamp))) {
+      throw new Error('Each book snapshot needs asset_id, timestamp, bids and asks');
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Fill in a book's spread if it was not recorded
+ */
+export function withSpread(book: Omit<ClobOrderBook, 'spread'> & { spread?: number }): ClobOrderBook {
+  const bestBid = Math.max(0, ...book.bids.map((entry) => Number(entry.price)));
+  const asks = book.asks.map((entry) => Number(entry.price));
+  const bestAsk = asks.length > 0 ? Math.min(...asks) : 0;
+  return {
+    ...book,
+    spread: book.spread ?? (bestBid > 0 && bestAsk > 0 ? bestAsk - bestBid : 0),
+  };
+}
+
+export class FileBookSource implements OrderBookSource {
+  /** Snapshots per token, oldest first */
+  private readonly books: Map<string, Array<{ timestamp: number; book: ClobOrderBook }>> = new Map();
+  private readonly origin: number;
+  private readonly startedAt: number;
+  private readonly speed: number;
+
+  constructor(file: string, options: FileBookSourceOptions = {}) {
+    const snapshots = parseBookSnapshots(fs.readFileSync(file, 'utf8'));
+    if (snapshots.length === 0) {
+      throw new Error(`No order book snapshots in ${file}`);
+    }
+
+    for (const snapshot of snapshots) {
+      const list = this.books.get(snapshot.asset_id) || [];
+      list.push({ timestamp: Number(snapshot.timestamp), book: withSpread(snapshot) });
+      this.books.set(snapshot.asset_id, list);
+    }
+    for (const list of this.books.values()) {
+      list.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    this.origin = Math.min(...snapshots.map((snapshot) => Number(snapshot.timestamp)));
+    this.startedAt = options.now ?? Date.now();
+    this.speed = options.speed ?? 1;
+  }
+
+  /**
+   * Current position of the replay clock, in snapshot time
+   */
+  replayTime(now: number = Date.now()): number {
+    return this.origin + (now - this.startedAt) * this.speed;
+  }
+
+  /**
+   * The token's latest snapshot at the replay time, or its first one if the
+   * replay has not reached it yet. The same object is returned until the
+   * next snapshot is due.
+   */
+  async getOrderBook(tokenId: string): Promise<ClobResponse<ClobOrderBook>> {
+    const list = this.books.get(tokenId);
+    if (!list) {
+      return { success: false, status: 404, error: `No recorded order book for token ${tokenId}` };
+    }
+
+    const time = this.replayTime();
+    let current = list[0];
+    for (const entry of list) {
+      if (entry.timestamp > time) {
+        break;
+      }
+      current = entry;
+    }
+    return { success: true, status: 200, data: current.book };
+  }
+}
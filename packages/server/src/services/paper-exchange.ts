@@ -0,0 +1,476 @@
+/**
+ * Paper Exchange - In-process simulated exchange for paper trading
+ *
+ * Orders match against order book snapshots instead of the CLOB:
+ * - Marketable orders take liquidity up to their limit price, at the book's
+ *   prices. Liquidity taken stays taken until the next snapshot.
+ * - FOK orders fill completely or are rejected, FAK orders cancel whatever
+ *   does not match, GTC/GTD orders rest at their limit price.
+ * - Resting orders fill at their own price once a later snapshot crosses
+ *   them, checked whenever the user's open orders are read (reconciliation)
+ *   or another order is placed on the token.
+ *
+ * Fills move the user's virtual USDC (User.paperBalance) right away. Shares
+ * follow once the fills are recorded, like live trades: taker fills when the
+ * order is stored, maker fills on reconciliation. BUY orders need free
+ * virtual USDC and SELL orders need free shares, both net of what the
+ * user's resting orders already reserve.
+ *
+ * Resting orders and trades are kept in memory and do not survive a restart;
+ * reconciliation then cancels the stored orders this exchange lost.
+ * All exchange operations run one at a time.
+ */
+
+import * as crypto from 'crypto';
+import type { Order, OrderSide } from '@quantish/types';
+import type {
+  ClobCancelResponse,
+  ClobOpenOrder,
+  ClobOrderBook,
+  ClobOrderResponse,
+  ClobOrderType,
+  ClobResponse,
+  ClobTrade,
+  SignedClobOrder,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import type { Exchange, ExchangeAccount, ExchangeMarket } from './exchange';
+import type { OrderBookSource } from './paper-books';
+import type { PositionAccounting } from './positions';
+
+interface PaperOrder {
+  id: string;
+  userId: string;
+  maker: string;
+  conditionId: string;
+  negRisk: boolean;
+  tokenId: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  matched: number;
+  status: 'LIVE' | 'MATCHED' | 'CANCELED';
+  orderType: ClobOrderType;
+  /** Unix seconds, 0 for none */
+  expiration: number;
+  /** Unix seconds */
+  createdAt: number;
+}
+
+interface Match {
+  price: number;
+  size: number;
+}
+
+/** Liquidity taken from a snapshot, by side and price */
+interface BookUsage {
+  book: ClobOrderBook;
+  taken: Map<string, number>;
+}
+
+const EPSILON = 1e-9;
+const USDC_DECIMALS = 1e6;
+
+function round6(value: number): number {
+  return Math.round(value * USDC_DECIMALS) / USDC_DECIMALS;
+}
+
+function rejected<T>(error: string): ClobResponse<T> {
+  return { success: false, status: 400, error };
+}
+
+export class PaperExchange implements Exchange {
+  readonly paper = true;
+
+  private readonly orders: Map<string, PaperOrder> = new Map();
+  /** Trades by user id */
+  private readonly trades: Map<string, ClobTrade[]> = new Map();
+  /** Liquidity taken from the current snapshot, by token */
+  private readonly usage: Map<string, BookUsage> = new Map();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly ctx: Pick<ServerContext, 'database'>,
+    private readonly books: OrderBookSource,
+    private readonly accounting: PositionAccounting
+  ) {}
+
+  /**
+   * Current snapshot minus the liquidity paper orders took from it
+   */
+  async getOrderBook(tokenId: string): Promise<ClobResponse<ClobOrderBook>> {
+    const response = await this.loadBook(tokenId);
+    if (!response.success || !response.data) {
+      return { success: false, status: response.status, error: response.error };
+    }
+
+    const usage = response.data;
+    const remaining = (side: 'bids' | 'asks') => usage.book[side]
+      .map((entry) => ({
+        price: entry.price,
+        size: String(round6(Number(entry.size) - (usage.taken.get(`${side}:${entry.price}`) || 0))),
+      }))
+      .filter((entry) => Number(entry.size) > EPSILON);
+
+    const bids = remaining('bids');
+    const asks = remaining('asks');
+    const bestBid = Math.max(0, ...bids.map((entry) => Number(entry.price)));
+    const bestAsk = asks.length > 0 ? Math.min(...asks.map((entry) => Number(entry.price))) : 0;
+
+    return {
+      success: true,
+      status: 200,
+      data: { ...usage.book, bids, asks, spread: bestBid > 0 && bestAsk > 0 ? bestAsk - bestBid : 0 },
+    };
+  }
+
+  postOrder(
+    account: ExchangeAccount,
+    signed: SignedClobOrder,
+    orderType: ClobOrderType,
+    market: ExchangeMarket
+  ): Promise<ClobResponse<ClobOrderResponse>> {
+    return this.serialize(() => this.match(account, signed, orderType, market));
+  }
+
+  cancelOrders(account: ExchangeAccount, orderIds: string[]): Promise<ClobResponse<ClobCancelResponse>> {
+    return this.serialize(async () => {
+      const result: ClobCancelResponse = { canceled: [], not_canceled: {} };
+      for (const id of orderIds) {
+        const order = this.orders.get(id);
+        if (!order || order.userId !== account.userId) {
+          result.not_canceled[id] = 'order not found';
+        } else if (order.status !== 'LIVE') {
+          result.not_canceled[id] = order.status === 'MATCHED' ? 'order already matched' : 'order already canceled';
+        } else {
+          order.status = 'CANCELED';
+          result.canceled.push(id);
+        }
+      }
+      return { success: true, status: 200, data: result };
+    });
+  }
+
+  getOpenOrders(account: ExchangeAccount): Promise<ClobResponse<ClobOpenOrder[]>> {
+    return this.serialize(async () => {
+      const tokens = new Set(this.restingOrders(account.userId).map((order) => order.tokenId));
+      for (const tokenId of tokens) {
+        await this.matchResting(tokenId);
+      }
+      return {
+        success: true,
+        status: 200,
+        data: this.restingOrders(account.userId).map((order) => this.toOpenOrder(order)),
+      };
+    });
+  }
+
+  async getOrder(account: ExchangeAccount, orderId: string): Promise<ClobResponse<ClobOpenOrder | null>> {
+    const order = this.orders.get(orderId);
+    if (!order || order.userId !== account.userId) {
+      return { success: true, status: 404, data: null };
+    }
+    return { success: true, status: 200, data: this.toOpenOrder(order) };
+  }
+
+  async getTrades(
+    account: ExchangeAccount,
+    params: { after?: number } = {}
+  ): Promise<ClobResponse<ClobTrade[]>> {
+    const trades = (this.trades.get(account.userId) || [])
+      .filter((trade) => params.after === undefined || Number(trade.match_time) >= params.after);
+    return { success: true, status: 200, data: trades };
+  }
+
+  /**
+   * Record the trades matched at placement as fills of the stored order
+   */
+  async recordFills(order: Order): Promise<Order> {
+    const paper = order.clobOrderId ? this.orders.get(order.clobOrderId) : undefined;
+    if (!paper) {
+      return order;
+    }
+
+    let current = order;
+    for (const trade of this.trades.get(order.userId) || []) {
+      if (trade.taker_order_id !== paper.id) {
+        continue;
+      }
+      const result = await this.accounting.recordFill({
+        orderId: order.id,
+        tradeId: trade.id,
+        price: Number(trade.price),
+        size: Number(trade.size),
+        filledAt: new Date(Number(trade.match_time) * 1000),
+      });
+      current = result.order;
+    }
+
+    // FAK remainders are cancelled by the exchange
+    if (paper.status === 'CANCELED' && (current.status === 'PENDING' || current.status === 'PARTIALLY_FILLED')) {
+      current = await this.ctx.database.updateOrder(order.id, { status: 'CANCELLED' });
+    }
+    return current;
+  }
+
+  /**
+   * Run exchange operations one at a time, like a matching engine
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async match(
+    account: ExchangeAccount,
+    signed: SignedClobOrder,
+    orderType: ClobOrderType,
+    market: ExchangeMarket
+  ): Promise<ClobResponse<ClobOrderResponse>> {
+    const makerAmount = Number(signed.makerAmount) / USDC_DECIMALS;
+    const takerAmount = Number(signed.takerAmount) / USDC_DECIMALS;
+    const side = signed.side;
+    const size = side === 'BUY' ? takerAmount : makerAmount;
+    const price = round6(side === 'BUY' ? makerAmount / takerAmount : takerAmount / makerAmount);
+    const expiration = Number(signed.expiration);
+    const now = Math.floor(Date.now() / 1000);
+
+    if (expiration > 0 && expiration <= now) {
+      return rejected('order is expired');
+    }
+
+    // Earlier resting orders on this token get the new snapshot first
+    await this.matchResting(signed.tokenId);
+
+    const funds = await this.freeFunds(account.userId, side, signed.tokenId);
+    const required = side === 'BUY' ? price * size : size;
+    if (required > funds + EPSILON) {
+      return rejected(side === 'BUY'
+        ? `not enough balance / allowance: order needs ${round6(required)} virtual USDC, ${round6(funds)} available`
+        : `not enough balance / allowance: order sells ${size} shares, ${round6(funds)} available`);
+    }
+
+    const book = await this.loadBook(signed.tokenId);
+    if (!book.success || !book.data) {
+      return { success: false, status: book.status ?? 502, error: book.error || 'Could not load order book' };
+    }
+    const usage = book.data;
+
+    const matches = this.take(usage, side, price, size);
+    const filled = matches.reduce((total, match) => total + match.size, 0);
+    if (orderType === 'FOK' && filled < size - EPSILON) {
+      return rejected("order couldn't be fully filled. FOK orders are fully filled or killed.");
+    }
+
+    const order: PaperOrder = {
+      id: '0x' + crypto.randomBytes(32).toString('hex'),
+      userId: account.userId,
+      maker: signed.maker,
+      conditionId: market.conditionId,
+      negRisk: market.negRisk,
+      tokenId: signed.tokenId,
+      side,
+      price,
+      size,
+      matched: 0,
+      status: 'LIVE',
+      orderType,
+      expiration,
+      createdAt: now,
+    };
+    this.orders.set(order.id, order);
+
+    let notional = 0;
+    for (const match of matches) {
+      const key = `${side === 'BUY' ? 'asks' : 'bids'}:${match.priceLabel}`;
+      usage.taken.set(key, (usage.taken.get(key) || 0) + match.size);
+      notional += match.price * match.size;
+      await this.fill(order, match, 'taker');
+    }
+
+    if (order.matched >= order.size - EPSILON) {
+      order.status = 'MATCHED';
+    } else if (orderType === 'FAK') {
+      order.status = 'CANCELED';
+    }
+
+    const status = filled > EPSILON ? 'matched' : order.status === 'LIVE' ? 'live' : 'unmatched';
+    return {
+      success: true,
+      status: 200,
+      data: {
+        success: true,
+        errorMsg: '',
+        orderID: order.id,
+        status,
+        transactionsHashes: [],
+        makingAmount: String(round6(side === 'BUY' ? notional : filled)),
+        takingAmount: String(round6(side === 'BUY' ? filled : notional)),
+      },
+    };
+  }
+
+  /**
+   * Fill resting orders on a token that the current snapshot crosses
+   */
+  private async matchResting(tokenId: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    const resting = Array.from(this.orders.values())
+      .filter((order) => order.tokenId === tokenId && order.status === 'LIVE')
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (resting.length === 0) {
+      return;
+    }
+
+    const book = await this.loadBook(tokenId);
+    if (!book.success || !book.data) {
+      return;
+    }
+    const usage = book.data;
+
+    for (const order of resting) {
+      if (order.expiration > 0 && order.expiration <= now) {
+        order.status = 'CANCELED';
+        continue;
+      }
+
+      const matches = this.take(usage, order.side, order.price, order.size - order.matched);
+      for (const match of matches) {
+        const key = `${order.side === 'BUY' ? 'asks' : 'bids'}:${match.priceLabel}`;
+        usage.taken.set(key, (usage.taken.get(key) || 0) + match.size);
+        // Resting orders are makers and trade at their own price
+        await this.fill(order, { price: order.price, size: match.size }, 'maker');
+      }
+      if (order.matched >= order.size - EPSILON) {
+        order.status = 'MATCHED';
+      }
+    }
+  }
+
+  /**
+   * Liquidity an order can take from a snapshot, best price first
+   */
+  private take(
+    usage: BookUsage,
+    side: OrderSide,
+    limitPrice: number,
+    size: number
+  ): Array<Match & { priceLabel: string }> {
+    const bookSide = side === 'BUY' ? 'asks' : 'bids';
+    const levels = usage.book[bookSide]
+      .map((entry) => ({
+        priceLabel: entry.price,
+        price: Number(entry.price),
+        size: Number(entry.size) - (usage.taken.get(`${bookSide}:${entry.price}`) || 0),
+      }))
+      .filter((level) => level.size > EPSILON)
+      .filter((level) => (side === 'BUY' ? level.price <= limitPrice + EPSILON : level.price >= limitPrice - EPSILON))
+      .sort((a, b) => (side === 'BUY' ? a.price - b.price : b.price - a.price));
+
+    const matches: Array<Match & { priceLabel: string }> = [];
+    let remaining = size;
+    for (const level of levels) {
+      if (remaining <= EPSILON) {
+        break;
+      }
+      const taken = round6(Math.min(level.size, remaining));
+      matches.push({ priceLabel: level.priceLabel, price: level.price, size: taken });
+      remaining -= taken;
+    }
+    return matches;
+  }
+
+  /**
+   * Virtual USDC (BUY) or shares (SELL) not reserved by resting orders.
+   * Shares count trades whose fills are not recorded yet.
+   */
+  private async freeFunds(userId: string, side: OrderSide, tokenId: string): Promise<number> {
+    const resting = this.restingOrders(userId).filter((order) => order.side === side);
+
+    if (side === 'BUY') {
+      const user = await this.ctx.database.getUserById(userId);
+      const reserved = resting.reduce((total, order) => total + (order.size - order.matched) * order.price, 0);
+      return (user?.paperBalance ?? 0) - reserved;
+    }
+
+    const positions = await this.ctx.database.getPositions(userId);
+    const recorded = new Set((await this.ctx.database.listFills(userId, { tokenId })).map((fill) => fill.tradeId));
+    const unrecorded = (this.trades.get(userId) || [])
+      .filter((trade) => trade.asset_id === tokenId && !recorded.has(trade.id))
+      .reduce((total, trade) => total + (trade.side === 'BUY' ? 1 : -1) * Number(trade.size), 0);
+    const held = (positions.find((position) => position.tokenId === tokenId)?.size ?? 0) + unrecorded;
+    const reserved = resting
+      .filter((order) => order.tokenId === tokenId)
+      .reduce((total, order) => total + (order.size - order.matched), 0);
+    return held - reserved;
+  }
+
+  /**
+   * Record a trade and move virtual USDC
+   */
+  private async fill(order: PaperOrder, match: Match, role: 'taker' | 'maker'): Promise<void> {
+    const { database } = this.ctx;
+    order.matched = round6(order.matched + match.size);
+
+    const trade: ClobTrade = {
+      id: `paper-${crypto.randomUUID()}`,
+      taker_order_id: role === 'taker' ? order.id : '',
+      market: order.conditionId,
+      asset_id: order.tokenId,
+      side: order.side,
+      size: String(match.size),
+      price: String(match.price),
+      status: 'CONFIRMED',
+      match_time: String(Math.floor(Date.now() / 1000)),
+      maker_orders: role === 'maker'
+        ? [{ order_id: order.id, maker_address: order.maker, matched_amount: String(match.size), price: String(match.price) }]
+        : [],
+    };
+    this.trades.set(order.userId, [...(this.trades.get(order.userId) || []), trade]);
+
+    const user = await database.getUserById(order.userId);
+    const cash = match.price * match.size;
+    await database.updateUser(order.userId, {
+      paperBalance: round6((user?.paperBalance ?? 0) + (order.side === 'BUY' ? -cash : cash)),
+    });
+  }
+
+  /**
+   * Load the current snapshot, resetting taken liquidity when it changed
+   */
+  private async loadBook(tokenId: string): Promise<ClobResponse<BookUsage>> {
+    const response = await this.books.getOrderBook(tokenId);
+    if (!response.success || !response.data) {
+      return { success: false, status: response.status, error: response.error || 'Could not load order book' };
+    }
+
+    let usage = this.usage.get(tokenId);
+    if (!usage || usage.book !== response.data) {
+      usage = { book: response.data, taken: new Map() };
+      this.usage.set(tokenId, usage);
+    }
+    return { success: true, status: response.status, data: usage };
+  }
+
+  private restingOrders(userId: string): PaperOrder[] {
+    return Array.from(this.orders.values()).filter((order) => order.userId === userId && order.status === 'LIVE');
+  }
+
+  private toOpenOrder(order: PaperOrder): ClobOpenOrder {
+    return {
+      id: order.id,
+      status: order.status,
+      maker_address: order.maker,
+      market: order.conditionId,
+      asset_id: order.tokenId,
+      side: order.side,
+      original_size: String(order.size),
+      size_matched: String(order.matched),
+      price: String(order.price),
+      order_type: order.orderType,
+      expiration: String(order.expiration),
+      created_at: order.createdAt,
+    };
+  }
+}
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest';
+import type { Fill, OrderSide, Transaction, TransactionStatus } from '@quantish/types';
+import {
+  applyFill,
+  createLedger,
+  replayFills,
+  toMovements,
+  type CostBasis,
+  type PositionLedger,
+  type PositionMovement,
+} from './positions';
+
+const CONDITION_ID = `0x${'ab'.repeat(32)}`;
+const TOKEN_ID = '1001';
+
+let nextId = 0;
+
+function fill(
+  side: OrderSide,
+  size: number,
+  price: number,
+  options: { fee?: number; at?: string; createdAt?: string; tokenId?: string } = {}
+): Fill {
+  const at = new Date(options.at ?? '2026-01-01T00:00:00Z');
+  nextId++;
+  return {
+    id: `fill-${String(nextId).padStart(4, '0')}`,
+    orderId: `order-${nextId}`,
+    userId: 'user-1',
+    tradeId: `trade-${nextId}`,
+    conditionId: CONDITION_ID,
+    tokenId: options.tokenId ?? TOKEN_ID,
+    side,
+    price,
+    size,
+    fee: options.fee ?? 0,
+    filledAt: at,
+    createdAt: options.createdAt ? new Date(options.createdAt) : at,
+  };
+}
+
+function ledgerFor(fills: Fill[], costBasis: CostBasis): PositionLedger {
+  const ledger = createLedger({ conditionId: CONDITION_ID, tokenId: TOKEN_ID });
+  for (const entry of fills) {
+    applyFill(ledger, entry, costBasis);
+  }
+  return ledger;
+}
+
+describe('applyFill', () => {
+  const buysThenSell = () => [fill('BUY', 10, 0.4), fill('BUY', 10, 0.6), fill('SELL', 10, 0.7)];
+
+  it('sells at the average cost', () => {
+    const ledger = ledgerFor(buysThenSell(), 'average');
+
+    expect(ledger.size).toBeCloseTo(10);
+    expect(ledger.cost).toBeCloseTo(5);
+    expect(ledger.realizedPnl).toBeCloseTo(2);
+    expect(ledger.lots).toEqual([]);
+    expect(ledger.fills).toBe(3);
+    expect(ledger.lastPrice).toBe(0.7);
+  });
+
+  it('sells the oldest lots first under FIFO', () => {
+    const ledger = ledgerFor(buysThenSell(), 'fifo');
+
+    expect(ledger.size).toBeCloseTo(10);
+    expect(ledger.cost).toBeCloseTo(6);
+    expect(ledger.realizedPnl).toBeCloseTo(3);
+    expect(ledger.lots).toHaveLength(1);
+    expect(ledger.lots[0].size).toBeCloseTo(10);
+    expect(ledger.lots[0].price).toBeCloseTo(0.6);
+  });
+
+  it('splits a FIFO sell across lots', () => {
+    const ledger = ledgerFor([fill('BUY', 10, 0.4), fill('BUY', 10, 0.6), fill('SELL', 15, 0.8)], 'fifo');
+
+    expect(ledger.realizedPnl).toBeCloseTo(12 - 4 - 3);
+    expect(ledger.lots).toHaveLength(1);
+    expect(ledger.lots[0].size).toBeCloseTo(5);
+    expect(ledger.cost).toBeCloseTo(3);
+  });
+
+  it('adds fees to the cost of buys and takes them off the proceeds of sells', () => {
+    for (const costBasis of ['average', 'fifo'] as const) {
+      const ledger = ledgerFor([fill('BUY', 10, 0.5, { fee: 0.1 }), fill('SELL', 10, 0.6, { fee: 0.2 })], costBasis);
+
+      expect(ledger.realizedPnl).toBeCloseTo(5.8 - 5.1);
+      expect(ledger.size).toBe(0);
+      expect(ledger.cost).toBe(0);
+    }
+  });
+
+  it('reports a sell beyond the held size as unmatched and closes the position', () => {
+    for (const costBasis of ['average', 'fifo'] as const) {
+      const ledger = ledgerFor([fill('BUY', 5, 0.4), fill('SELL', 8, 0.6, { fee: 0.16 })], costBasis);
+
+      expect(ledger.unmatchedSellSize).toBeCloseTo(3);
+      // Only the matched 5 of 8 shares, and their share of the fee, count
+      expect(ledger.realizedPnl).toBeCloseTo((4.8 - 0.16) * (5 / 8) - 2);
+      expect(ledger.size).toBe(0);
+      expect(ledger.cost).toBe(0);
+      expect(ledger.lots).toEqual([]);
+    }
+  });
+
+  it('adds no PnL for a sell with nothing held', () => {
+    const ledger = ledgerFor([fill('SELL', 4, 0.9)], 'average');
+
+    expect(ledger.unmatchedSellSize).toBe(4);
+    expect(ledger.realizedPnl).toBe(0);
+    expect(ledger.size).toBe(0);
+    expect(ledger.fills).toBe(1);
+  });
+});
+
+describe('replayFills', () => {
+  function history(): Fill[] {
+    return [
+      fill('BUY', 10, 0.4, { at: '2026-01-01T00:00:00Z' }),
+      fill('BUY', 10, 0.6, { at: '2026-01-01T00:01:00Z' }),
+      fill('SELL', 15, 0.8, { at: '2026-01-01T00:02:00Z' }),
+      fill('BUY', 5, 0.5, { at: '2026-01-01T00:03:00Z' }),
+      fill('SELL', 12, 0.3, { at: '2026-01-01T00:04:00Z', fee: 0.05 }),
+      fill('BUY', 3, 0.2, { at: '2026-01-01T00:00:30Z', tokenId: '1002' }),
+    ];
+  }
+
+  it.each(['average', 'fifo'] as const)('replays out-of-order %s fills to the in-order result', (costBasis) => {
+    const fills = history();
+    const inOrder = replayFills(fills, costBasis);
+    const shuffled = replayFills([fills[4], fills[1], fills[5], fills[3], fills[0], fills[2]], costBasis);
+    const reversed = replayFills([...fills].reverse(), costBasis);
+
+    expect(shuffled).toEqual(inOrder);
+    expect(reversed).toEqual(inOrder);
+    expect([...inOrder.keys()].sort()).toEqual(['1001', '1002']);
+    expect(inOrder.get('1001')!.unmatchedSellSize).toBeCloseTo(2);
+    expect(inOrder.get('1002')!.size).toBe(3);
+  });
+
+  it('keeps fills from the same second in recorded order', () => {
+    const buy = fill('BUY', 5, 0.4, { at: '2026-01-01T00:00:00Z', createdAt: '2026-01-01T00:00:01Z' });
+    const sell = fill('SELL', 5, 0.5, { at: '2026-01-01T00:00:00Z', createdAt: '2026-01-01T00:00:02Z' });
+
+    const ledger = replayFills([sell, buy], 'average').get(TOKEN_ID)!;
+
+    expect(ledger.unmatchedSellSize).toBe(0);
+    expect(ledger.realizedPnl).toBeCloseTo(0.5);
+  });
+
+  it('replays movements with the fills without counting them as fills', () => {
+    const split: PositionMovement = {
+      id: 'transaction-1',
+      conditionId: CONDITION_ID,
+      tokenId: TOKEN_ID,
+      side: 'BUY',
+      size: 10,
+      price: 0.5,
+      movedAt: new Date('2026-01-01T00:00:00Z'),
+    };
+    const sell = fill('SELL', 10, 0.7, { at: '2026-01-01T00:01:00Z' });
+
+    const ledger = replayFills([sell], 'average', [split]).get(TOKEN_ID)!;
+
+    expect(ledger.fills).toBe(1);
+    expect(ledger.unmatchedSellSize).toBe(0);
+    expect(ledger.realizedPnl).toBeCloseTo(2);
+  });
+});
+
+describe('toMovements', () => {
+  function merge(status: TransactionStatus): Transaction {
+    return {
+      id: `merge-${status}`,
+      userId: 'user-1',
+      type: 'MERGE_POSITIONS',
+      status,
+      txHash: `0x${'12'.repeat(32)}`,
+      metadata: { conditionId: CONDITION_ID, positions: [{ tokenId: TOKEN_ID, size: 4 }] },
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      updatedAt: new Date('2026-01-01T00:00:00Z'),
+    };
+  }
+
+  it('reads only executed movements', () => {
+    const movements = toMovements((['PENDING', 'SUBMITTED', 'EXECUTED', 'FAILED'] as const).map(merge));
+
+    expect(movements).toEqual([{
+      id: 'merge-EXECUTED',
+      conditionId: CONDITION_ID,
+      tokenId: TOKEN_ID,
+      side: 'SELL',
+      size: 4,
+      price: 0.5,
+      movedAt: new Date('2026-01-01T00:00:00Z'),
+    }]);
+  });
+
+  it('leaves shares of a merge that is not mined yet open', () => {
+    const buy = fill('BUY', 10, 0.4);
+
+    const ledger = replayFills([buy], 'average', toMovements([merge('SUBMITTED')])).get(TOKEN_ID)!;
+
+    expect(ledger.size).toBe(10);
+    expect(ledger.realizedPnl).toBe(0);
+  });
+});
@@ -0,0 +1,461 @@
+/**
+ * Positions - Derive positions from a user's fills
+ *
+ * A position's size, cost basis and realized PnL are a function of its
+ * token's fills, replayed in execution order. Recording a fill re-derives
+ * that token's position, so fills that arrive late or out of order still
+ * land in the right place, and a whole book can be rebuilt from scratch.
+ *
+ * Cost basis is either average cost or FIFO lots. Fees add to the cost of
+ * BUYs and come off the proceeds of SELLs. A SELL larger than the shares the
+ * fills show as held (shares that came from a transfer or split, or fills
+ * that were never recorded) closes the position; the excess has no known
+ * cost, so it is reported as unmatched and adds no PnL.
+ *
+ * Shares also move outside the order book. A split buys one share of each
+ * outcome and a merge sells them, each share at half the 1 USDC a complete
+ * set is worth; redeeming a resolved market sells shares at their payout. A
+ * neg-risk conversion sells NO shares and buys YES shares at the prices it
+ * recorded. These movements are stored as transactions and replayed with the fills,
+ * so a rebuild never brings merged or claimed shares back. Only transactions
+ * mined on chain count; one still waiting to be mined is replayed once it is.
+ */
+
+import type {
+  CreateFillInput,
+  CreateFillResult,
+  Fill,
+  OrderSide,
+  Position,
+  Transaction,
+  TransactionStatus,
+  TransactionType,
+  UpsertPositionInput,
+} from '@quantish/types';
+import type { ServerContext } from '../context';
+
+export type CostBasis = 'average' | 'fifo';
+
+/** Shares bought together, with their cost per share including fees */
+interface Lot {
+  size: number;
+  price: number;
+}
+
+/**
+ * Running state of one token's position while fills are replayed
+ */
+export interface PositionLedger {
+  conditionId: string;
+  tokenId: string;
+  size: number;
+  /** USDC cost of the shares held */
+  cost: number;
+  realizedPnl: number;
+  /** Shares sold beyond what the fills show as held */
+  unmatchedSellSize: number;
+  /** Price of the latest fill */
+  lastPrice: number;
+  fills: number;
+  /** Open lots, oldest first (FIFO only) */
+  lots: Lot[];
+}
+
+/**
+ * Shares of one token split, merged, converted or redeemed
+ */
+export interface PositionMovement {
+  /** The transaction that moved them */
+  id: string;
+  conditionId: string;
+  tokenId: string;
+  side: OrderSide;
+  size: number;
+  /** USDC per share */
+  price: number;
+  movedAt: Date;
+}
+
+/** How movement transactions list the shares they moved */
+export interface MovedPosition {
+  tokenId: string;
+  size: number;
+  /** Redemptions only: USDC the shares paid out */
+  payout?: number;
+  /** Conversions only: each position's own market, side and USDC per share */
+  conditionId?: string;
+  side?: OrderSide;
+  price?: number;
+}
+
+export interface PositionAuditEntry {
+  conditionId: string;
+  tokenId: string;
+  fills: number;
+  size: number;
+  avgPrice: number;
+  initialValue: number;
+  realizedPnl: number;
+  unmatchedSellSize: number;
+  /** The stored position before the rebuild, if there was one */
+  stored: Pick<Position, 'size' | 'avgPrice' | 'initialValue' | 'realizedPnl'> | null;
+  /** Whether the derived values differ from the stored ones */
+  changed: boolean;
+}
+
+export interface PositionAudit {
+  userId: string;
+  costBasis: CostBasis;
+  positions: PositionAuditEntry[];
+  /** Tokens with a stored position but no fills or movements; left as they are */
+  untracked: string[];
+  /** False for a dry run */
+  written: boolean;
+}
+
+/** Shares are tracked to 6 decimals on chain */
+const SIZE_TOLERANCE = 1e-6;
+
+export const MOVEMENT_TRANSACTION_TYPES: TransactionType[] = [
+  'SPLIT_POSITION',
+  'MERGE_POSITIONS',
+  'CONVERT_POSITIONS',
+  'REDEEM_POSITION',
+];
+
+/** The one status of a movement transaction whose shares really moved */
+export const MOVEMENT_APPLIED_STATUSES: TransactionStatus[] = ['EXECUTED'];
+
+/** Splits and merges value each share at half a complete set */
+const SET_SHARE_PRICE = 0.5;
+
+function round6(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+export function createLedger(fill: Pick<Fill, 'conditionId' | 'tokenId'>): PositionLedger {
+  return {
+    conditionId: fill.conditionId,
+    tokenId: fill.tokenId,
+    size: 0,
+    cost: 0,
+    realizedPnl: 0,
+    unmatchedSellSize: 0,
+    lastPrice: 0,
+    fills: 0,
+    lots: [],
+  };
+}
+
+/**
+ * Apply one fill to a ledger in place
+ */
+export function applyFill(
+  ledger: PositionLedger,
+  fill: Pick<Fill, 'side' | 'price' | 'size' | 'fee'>,
+  costBasis: CostBasis
+): PositionLedger {
+  ledger.fills++;
+  ledger.lastPrice = fill.price;
+
+  if (fill.side === 'BUY') {
+    const cost = fill.price * fill.size + fill.fee;
+    ledger.size += fill.size;
+    ledger.cost += cost;
+    if (costBasis === 'fifo') {
+      ledger.lots.push({ size: fill.size, price: cost / fill.size });
+    }
+    return ledger;
+  }
+
+  const matched = Math.min(fill.size, ledger.size);
+  ledger.unmatchedSellSize += fill.size - matched;
+  if (matched <= SIZE_TOLERANCE) {
+    return ledger;
+  }
+
+  let removed = 0;
+  if (costBasis === 'fifo') {
+    let remaining = matched;
+    while (remaining > SIZE_TOLERANCE && ledger.lots.length > 0) {
+      const lot = ledger.lots[0];
+      const taken = Math.min(lot.size, remaining);
+      removed += taken * lot.price;
+      lot.size -= taken;
+      remaining -= taken;
+      if (lot.size <= SIZE_TOLERANCE) {
+        ledger.lots.shift();
+      }
+    }
+  } else {
+    removed = (ledger.cost / ledger.size) * matched;
+  }
+
+  // Only the matched part of the fee counts against the matched shares
+  const proceeds = (fill.price * fill.size - fill.fee) * (matched / fill.size);
+  ledger.realizedPnl += proceeds - removed;
+  ledger.size -= matched;
+  ledger.cost -= removed;
+
+  if (ledger.size <= SIZE_TOLERANCE) {
+    ledger.size = 0;
+    ledger.cost = 0;
+    ledger.lots = [];
+  }
+  return ledger;
+}
+
+/**
+ * Apply a movement to a ledger in place: a fee-free trade that does not
+ * count as a fill
+ */
+export function applyMovement(
+  ledger: PositionLedger,
+  movement: Pick<PositionMovement, 'side' | 'size' | 'price'>,
+  costBasis: CostBasis
+): PositionLedger {
+  const { fills } = ledger;
+  applyFill(ledger, { side: movement.side, price: movement.price, size: movement.size, fee: 0 }, costBasis);
+  ledger.fills = fills;
+  return ledger;
+}
+
+/**
+ * Read the movements out of split, merge, conversion and redemption transactions.
+ * Only executed ones moved shares: submitted ones may still revert and failed
+ * ones never will, so both are skipped.
+ */
+export function toMovements(transactions: Transaction[]): PositionMovement[] {
+  return transactions
+    .filter((transaction) => MOVEMENT_TRANSACTION_TYPES.includes(transaction.type)
+      && MOVEMENT_APPLIED_STATUSES.includes(transaction.status))
+    .flatMap((transaction) => {
+      const { conditionId, positions } = (transaction.metadata || {}) as {
+        conditionId?: string;
+        positions?: MovedPosition[];
+      };
+      return (positions || [])
+        .filter((position) => position.size > 0)
+        .map((position): PositionMovement => ({
+          id: transaction.id,
+          conditionId: position.conditionId || conditionId || '',
+          tokenId: position.tokenId,
+          side: position.side ?? (transaction.type === 'SPLIT_POSITION' ? 'BUY' : 'SELL'),
+          size: position.size,
+          price: position.price
+            ?? (transaction.type === 'REDEEM_POSITION' ? (position.payout ?? 0) / position.size : SET_SHARE_PRICE),
+          movedAt: transaction.createdAt,
+        }));
+    });
+}
+
+/**
+ * Replay fills and movements in execution order into one ledger per token
+ *
+ * Trade times only have second precision, so fills in the same second keep
+ * the order they were recorded in.
+ */
+export function replayFills(
+  fills: Fill[],
+  costBasis: CostBasis,
+  movements: PositionMovement[] = []
+): Map<string, PositionLedger> {
+  const events = [
+    ...fills.map((fill) => ({ at: fill.filledAt, createdAt: fill.createdAt, id: fill.id, fill, movement: null })),
+    ...movements.map((movement) => ({
+      at: movement.movedAt,
+      createdAt: movement.movedAt,
+      id: movement.id,
+      fill: null,
+      movement,
+    })),
+  ];
+  events.sort((a, b) =>
+    a.at.getTime() - b.at.getTime()
+    || a.createdAt.getTime() - b.createdAt.getTime()
+    || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const ledgers = new Map<string, PositionLedger>();
+  for (const { fill, movement } of events) {
+    const entry = (fill || movement)!;
+    let ledger = ledgers.get(entry.tokenId);
+    if (!ledger) {
+      ledger = createLedger(entry);
+      ledgers.set(entry.tokenId, ledger);
+    }
+    if (fill) {
+      applyFill(ledger, fill, costBasis);
+    } else {
+      applyMovement(ledger, movement!, costBasis);
+    }
+  }
+  return ledgers;
+}
+
+/**
+ * The upsert input that stores a position unchanged, to override fields of
+ */
+export function toUpsertInput(position: Position): UpsertPositionInput {
+  return {
+    userId: position.userId,
+    conditionId: position.conditionId,
+    tokenId: position.tokenId,
+    outcome: position.outcome,
+    size: position.size,
+    avgPrice: position.avgPrice,
+    currentPrice: position.currentPrice,
+    initialValue: position.initialValue,
+    currentValue: position.currentValue,
+    realizedPnl: position.realizedPnl,
+    marketTitle: position.marketTitle ?? undefined,
+    marketSlug: position.marketSlug ?? undefined,
+    negativeRisk: position.negativeRisk,
+    redeemable: position.redeemable,
+    mergeable: position.mergeable,
+  };
+}
+
+function summarize(ledger: PositionLedger) {
+  const size = round6(ledger.size);
+  return {
+    size,
+    avgPrice: size > 0 ? round6(ledger.cost / ledger.size) : 0,
+    initialValue: round6(ledger.cost),
+    realizedPnl: round6(ledger.realizedPnl),
+  };
+}
+
+export class PositionAccounting {
+  /** Latest sync per user and token; syncs of one token run one at a time */
+  private readonly syncing: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private readonly ctx: Pick<ServerContext, 'database'>,
+    readonly costBasis: CostBasis = 'average'
+  ) {}
+
+  /**
+   * Record a fill and update its token's position. Fills that were already
+   * recorded leave the position alone.
+   */
+  async recordFill(input: CreateFillInput): Promise<CreateFillResult> {
+    const result = await this.ctx.database.createFill(input);
+    if (result.created) {
+      await this.syncToken(result.fill.userId, result.fill.tokenId);
+    }
+    return result;
+  }
+
+  /**
+   * Re-derive one token's position from its fills and movements
+   *
+   * Concurrent syncs of the same token are queued, so a slower sync that
+   * read fewer fills can never overwrite a newer result.
+   */
+  syncToken(userId: string, tokenId: string): Promise<Position | null> {
+    const key = `${userId}:${tokenId}`;
+    const result = (this.syncing.get(key) || Promise.resolve()).then(() => this.derive(userId, tokenId));
+    const settled = result.catch(() => undefined);
+    this.syncing.set(key, settled);
+    settled.then(() => {
+      if (this.syncing.get(key) === settled) {
+        this.syncing.delete(key);
+      }
+    });
+    return result;
+  }
+
+  private async derive(userId: string, tokenId: string): Promise<Position | null> {
+    const { database } = this.ctx;
+    const fills = await database.listFills(userId, { tokenId });
+    const movements = (await this.movements(userId)).filter((movement) => movement.tokenId === tokenId);
+    const ledger = replayFills(fills, this.costBasis, movements).get(tokenId);
+    if (!ledger) {
+      return null;
+    }
+
+    const stored = (await database.getPositions(userId)).find((position) => position.tokenId === tokenId);
+    return this.write(userId, ledger, stored, ledger.lastPrice);
+  }
+
+  /**
+   * Rebuild every position of a user from the full fill history and report
+   * how the result compares to what was stored. A dry run only reports.
+   */
+  async rebuild(userId: string, options: { dryRun?: boolean } = {}): Promise<PositionAudit> {
+    const { database } = this.ctx;
+    const ledgers = replayFills(await database.listFills(userId), this.costBasis, await this.movements(userId));
+    const stored = new Map((await database.getPositions(userId)).map((position) => [position.tokenId, position]));
+
+    const positions: PositionAuditEntry[] = [];
+    for (const ledger of ledgers.values()) {
+      const existing = stored.get(ledger.tokenId);
+      const derived = summarize(ledger);
+      const changed = !existing || (Object.keys(derived) as Array<keyof typeof derived>)
+        .some((key) => Math.abs(existing[key] - derived[key]) > SIZE_TOLERANCE);
+
+      if (changed && !options.dryRun) {
+        await this.write(userId, ledger, existing, existing?.currentPrice || ledger.lastPrice);
+      }
+      positions.push({
+        conditionId: ledger.conditionId,
+        tokenId: ledger.tokenId,
+        fills: ledger.fills,
+        ...derived,
+        unmatchedSellSize: round6(ledger.unmatchedSellSize),
+        stored: existing
+          ? {
+            size: existing.size,
+            avgPrice: existing.avgPrice,
+            initialValue: existing.initialValue,
+            realizedPnl: existing.realizedPnl,
+          }
+          : null,
+        changed,
+      });
+    }
+
+    return {
+      userId,
+      costBasis: this.costBasis,
+      positions,
+      untracked: Array.from(stored.keys()).filter((tokenId) => !ledgers.has(tokenId)),
+      written: !options.dryRun,
+    };
+  }
+
+  private async movements(userId: string): Promise<PositionMovement[]> {
+    return toMovements(await this.ctx.database.listTransactions(userId, {
+      type: MOVEMENT_TRANSACTION_TYPES,
+      status: MOVEMENT_APPLIED_STATUSES,
+    }));
+  }
+
+  /**
+   * Store a derived position, keeping the market details the stored row has.
+   * A position with no shares left has nothing more to redeem.
+   */
+  private write(
+    userId: string,
+    ledger: PositionLedger,
+    existing: Position | undefined,
+    currentPrice: number
+  ): Promise<Position> {
+    const derived = summarize(ledger);
+
+    return this.ctx.database.upsertPosition({
+      userId,
+      conditionId: ledger.conditionId,
+      tokenId: ledger.tokenId,
+      outcome: existing?.outcome ?? '',
+      ...derived,
+      currentPrice,
+      currentValue: round6(derived.size * currentPrice),
+      marketTitle: existing?.marketTitle ?? undefined,
+      marketSlug: existing?.marketSlug ?? undefined,
+      negativeRisk: existing?.negativeRisk ?? false,
+      redeemable: derived.size > 0 && (existing?.redeemable ?? false),
+      mergeable: existing?.mergeable ?? false,
+    });
+  }
+}
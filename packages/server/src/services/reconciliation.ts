@@ -0,0 +1,402 @@
+/**
+ * Reconciliation - Bring stored orders in line with the CLOB
+ *
+ * For each user with CLOB credentials the worker pulls the user's open
+ * orders and recent trades, records fills for trades that match stored
+ * orders (by CLOB order id), updates the status of orders that are no longer
+ * open on the exchange, and flags exchange orders we have no record of.
+ *
+ * Fills are idempotent per (order, trade), so re-running is always safe.
+ *
+ * Splits, merges, conversions and redemptions that were not mined while the
+ * request waited stay SUBMITTED. Each run checks them for a receipt, stores
+ * the outcome and re-derives the positions of the executed ones.
+ *
+ * The paper exchange keeps resting orders in memory, so after a restart it
+ * no longer knows stored open orders. Those are cancelled, which also
+ * releases the virtual USDC and shares they reserved.
+ */
+
+import {
+  QuantishError,
+  type Order,
+  type OrderStatus,
+  type TransactionStatus,
+  type TransactionType,
+} from '@quantish/types';
+import type { ClobOpenOrder, ClobTrade } from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import type { Exchange } from './exchange';
+import { MOVEMENT_TRANSACTION_TYPES, type MovedPosition, type PositionAccounting } from './positions';
+import { settleTransaction } from './safe-executor';
+
+export interface ReconciliationOptions {
+  /** Time between runs in ms (default: 60000) */
+  intervalMs?: number;
+  /** Users reconciled in parallel (default: 4) */
+  concurrency?: number;
+}
+
+/** An order that is open on the CLOB but unknown to the database */
+export interface UntrackedOrder {
+  clobOrderId: string;
+  tokenId: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+}
+
+export interface ReconcileUserResult {
+  userId: string;
+  /** New fills recorded from trades */
+  fillsRecorded: number;
+  /** Orders whose status changed */
+  updated: Array<{ orderId: string; from: OrderStatus; to: OrderStatus }>;
+  untracked: UntrackedOrder[];
+  /** Submitted movement transactions that have been mined since */
+  settled: Array<{ transactionId: string; type: TransactionType; status: TransactionStatus }>;
+  errors: string[];
+}
+
+export interface ReconciliationRunResult {
+  users: number;
+  fillsRecorded: number;
+  updated: number;
+  untracked: number;
+  settled: number;
+  failed: Array<{ userId: string; error: string }>;
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['PENDING', 'LIVE', 'PARTIALLY_FILLED'];
+const PAGE_SIZE = 100;
+/** Trades are fetched from this long before the oldest open order, to absorb clock skew */
+const TRADE_LOOKBACK_SECONDS = 300;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Our side of a trade: the taker order, or our maker orders within it
+ */
+function tradeMatches(trade: ClobTrade, safeAddress: string): Array<{ clobOrderId: string; price: number; size: number }> {
+  const matches = [{ clobOrderId: trade.taker_order_id, price: Number(trade.price), size: Number(trade.size) }];
+  for (const maker of trade.maker_orders || []) {
+    if (!maker.maker_address || maker.maker_address.toLowerCase() === safeAddress.toLowerCase()) {
+      matches.push({ clobOrderId: maker.order_id, price: Number(maker.price), size: Number(maker.matched_amount) });
+    }
+  }
+  return matches.filter((match) => match.clobOrderId && match.size > 0);
+}
+
+export class ReconciliationWorker {
+  private readonly intervalMs: number;
+  private readonly concurrency: number;
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<ReconciliationRunResult> | null = null;
+  private stopped = true;
+
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly exchange: Exchange,
+    private readonly accounting: PositionAccounting,
+    options: ReconciliationOptions = {}
+  ) {
+    this.intervalMs = options.intervalMs ?? 60000;
+    this.concurrency = Math.max(1, options.concurrency ?? 4);
+  }
+
+  /**
+   * Run every intervalMs; a run never overlaps the previous one
+   */
+  start(): void {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+    this.schedule();
+  }
+
+  /**
+   * Stop scheduling and wait for an in-flight run to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.running?.catch(() => undefined);
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Order reconciliation failed:', error);
+      }
+      if (!this.stopped) {
+        this.schedule();
+      }
+    }, this.intervalMs);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Reconcile every user with CLOB credentials
+   */
+  runOnce(): Promise<ReconciliationRunResult> {
+    if (!this.running) {
+      this.running = this.reconcileAll().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async reconcileAll(): Promise<ReconciliationRunResult> {
+    const total: ReconciliationRunResult = { users: 0, fillsRecorded: 0, updated: 0, untracked: 0, settled: 0, failed: [] };
+    let afterId: string | undefined;
+
+    for (;;) {
+      const users = await this.ctx.database.listUsersWithKeys({ afterId, limit: PAGE_SIZE });
+      if (users.length === 0) {
+        break;
+      }
+      afterId = users[users.length - 1].id;
+
+      const queue = users.filter((user) => user.safeAddress
+        && !!user.paper === this.exchange.paper
+        && (user.clobApiKeyCreated || user.paper));
+      const next = async (): Promise<void> => {
+        for (let user = queue.shift(); user; user = queue.shift()) {
+          total.users++;
+          try {
+            const result = await this.reconcileUser(user.id);
+            total.fillsRecorded += result.fillsRecorded;
+            total.updated += result.updated.length;
+            total.untracked += result.untracked.length;
+            total.settled += result.settled.length;
+            if (result.errors.length > 0) {
+              total.failed.push({ userId: user.id, error: result.errors.join('; ') });
+            }
+          } catch (error) {
+            total.failed.push({ userId: user.id, error: errorMessage(error) });
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, next));
+
+      if (users.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return total;
+  }
+
+  /**
+   * Reconcile a single user's orders against the CLOB
+   */
+  async reconcileUser(userId: string): Promise<ReconcileUserResult> {
+    const { database } = this.ctx;
+    const { exchange } = this;
+    const { user, wallet } = await loadUserSigner(this.ctx, userId);
+    const account = { userId, wallet };
+    if (!user.safeAddress || !(user.clobApiKeyCreated || user.paper)) {
+      throw new QuantishError(
+        'Wallet has no CLOB credentials yet. Run POST /v1/wallet/setup first.',
+        'WALLET_NOT_READY',
+        409
+      );
+    }
+    const safeAddress = user.safeAddress;
+
+    const result: ReconcileUserResult = { userId, fillsRecorded: 0, updated: [], untracked: [], settled: [], errors: [] };
+    const open = await this.listOpenOrders(userId);
+
+    const exchangeOrders = await exchange.getOpenOrders(account);
+    if (!exchangeOrders.success || !exchangeOrders.data) {
+      throw new QuantishError(exchangeOrders.error || 'Could not load open orders', 'CLOB_ERROR', 502);
+    }
+    const exchangeOpen = new Map<string, ClobOpenOrder>(exchangeOrders.data.map((order) => [order.id, order]));
+
+    // Stored orders by CLOB id, loaded lazily for ids not already in hand
+    const known = new Map<string, Order | null>(open.map((order) => [order.clobOrderId!, order]));
+    const lookup = async (clobOrderId: string): Promise<Order | null> => {
+      if (!known.has(clobOrderId)) {
+        const order = await database.getOrderByClobId(clobOrderId);
+        known.set(clobOrderId, order && order.userId === userId ? order : null);
+      }
+      return known.get(clobOrderId)!;
+    };
+
+    // Fills from trades since the oldest open order
+    if (open.length > 0) {
+      const oldest = Math.min(...open.map((order) => order.createdAt.getTime()));
+      const trades = await exchange.getTrades(account, {
+        maker_address: safeAddress,
+        after: Math.floor(oldest / 1000) - TRADE_LOOKBACK_SECONDS,
+      });
+      if (!trades.success || !trades.data) {
+        result.errors.push(`Could not load trades: ${trades.error || 'unknown error'}`);
+      } else {
+        for (const trade of trades.data) {
+          if (trade.status === 'FAILED') {
+            continue;
+          }
+          for (const match of tradeMatches(trade, safeAddress)) {
+            const order = await lookup(match.clobOrderId);
+            if (!order) {
+              continue;
+            }
+            try {
+              const fill = await this.accounting.recordFill({
+                orderId: order.id,
+                tradeId: trade.id,
+                price: match.price,
+                size: match.size,
+                filledAt: new Date(Number(trade.match_time) * 1000),
+              });
+              if (fill.created) {
+                result.fillsRecorded++;
+                if (fill.order.status !== order.status) {
+                  result.updated.push({ orderId: order.id, from: order.status, to: fill.order.status });
+                }
+              }
+              known.set(match.clobOrderId, fill.order);
+            } catch (error) {
+              result.errors.push(`Fill ${trade.id} for order ${order.id}: ${errorMessage(error)}`);
+            }
+          }
+        }
+      }
+    }
+
+    // Status of orders we consider open
+    for (const stored of open) {
+      const clobOrderId = stored.clobOrderId!;
+      const order = known.get(clobOrderId)!;
+      if (!OPEN_STATUSES.includes(order.status)) {
+        continue;
+      }
+
+      try {
+        let status: OrderStatus | null = null;
+        if (exchangeOpen.has(clobOrderId)) {
+          status = order.status === 'PENDING' ? 'LIVE' : null;
+        } else {
+          const response = await exchange.getOrder(account, clobOrderId);
+          if (!response.success) {
+            throw new Error(response.error || 'Could not load order');
+          }
+          status = this.closedStatus(order, response.data ?? null);
+        }
+
+        if (status && status !== order.status) {
+          const updated = await database.updateOrder(order.id, { status });
+          result.updated.push({ orderId: order.id, from: order.status, to: updated.status });
+        }
+      } catch (error) {
+        result.errors.push(`Order ${order.id}: ${errorMessage(error)}`);
+      }
+    }
+
+    // Exchange orders we never stored
+    for (const exchangeOrder of exchangeOpen.values()) {
+      if (!(await lookup(exchangeOrder.id))) {
+        result.untracked.push({
+          clobOrderId: exchangeOrder.id,
+          tokenId: exchangeOrder.asset_id,
+          side: exchangeOrder.side,
+          price: Number(exchangeOrder.price),
+          size: Number(exchangeOrder.original_size),
+        });
+      }
+    }
+
+    // Movements that were still waiting to be mined
+    const pending = await database.listTransactions(userId, { type: MOVEMENT_TRANSACTION_TYPES, status: 'SUBMITTED' });
+    for (const transaction of pending) {
+      try {
+        const settled = await settleTransaction(this.ctx, transaction);
+        if (settled.status === 'SUBMITTED') {
+          continue;
+        }
+        result.settled.push({ transactionId: settled.id, type: settled.type, status: settled.status });
+        if (settled.status === 'EXECUTED') {
+          const { positions = [] } = (settled.metadata || {}) as { positions?: MovedPosition[] };
+          for (const { tokenId } of positions) {
+            await this.accounting.syncToken(userId, tokenId);
+          }
+        }
+      } catch (error) {
+        result.errors.push(`Transaction ${transaction.id}: ${errorMessage(error)}`);
+      }
+    }
+
+    if (result.updated.length > 0 || result.fillsRecorded > 0 || result.untracked.length > 0
+      || result.settled.length > 0 || result.errors.length > 0) {
+      await database.logActivity({
+        userId,
+        action: 'trade.reconcile',
+        resource: 'order',
+        details: {
+          fillsRecorded: result.fillsRecorded,
+          updated: result.updated,
+          untracked: result.untracked,
+          settled: result.settled,
+          ...(result.errors.length > 0 && { errors: result.errors }),
+        },
+        success: result.errors.length === 0 && result.untracked.length === 0,
+        errorMessage: result.untracked.length > 0
+          ? `${result.untracked.length} open CLOB orders are not in the database`
+          : result.errors[0],
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Status for an order that is no longer in the CLOB's open list
+   *
+   * Matched orders are settled through fills; only cancellations change the
+   * status here, to EXPIRED for GTD orders past their expiration. Orders the
+   * CLOB does not know are left alone; orders the paper exchange lost in a
+   * restart are cancelled.
+   */
+  private closedStatus(order: Order, exchangeOrder: ClobOpenOrder | null): OrderStatus | null {
+    if (!exchangeOrder && !this.exchange.paper) {
+      return null;
+    }
+    const status = exchangeOrder?.status.toUpperCase() ?? 'CANCELED';
+    if (status === 'CANCELED' || status === 'CANCELLED' || status === 'CANCELED_MARKET_RESOLVED') {
+      return order.expiresAt && order.expiresAt.getTime() <= Date.now() ? 'EXPIRED' : 'CANCELLED';
+    }
+    if (status === 'LIVE' && order.status === 'PENDING') {
+      return 'LIVE';
+    }
+    return null;
+  }
+
+  private async listOpenOrders(userId: string): Promise<Order[]> {
+    const open: Order[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.ctx.database.listOrders(userId, {
+        status: OPEN_STATUSES,
+        sort: 'asc',
+        limit: PAGE_SIZE,
+        offset,
+      });
+      open.push(...page);
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+    return open.filter((order) => !!order.clobOrderId);
+  }
+}
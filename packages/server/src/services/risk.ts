@@ -0,0 +1,259 @@
+/**
+ * Risk - Pre-trade limits checked before any order is signed
+ *
+ * Limits come from server config, with optional per-user overrides. Checks
+ * run cheapest first and the first violation throws a RiskLimitError naming
+ * the limit.
+ *
+ * Position and daily volume limits are checked against stored orders, so
+ * callers place orders through `guard`: a user's guarded placements run one
+ * at a time, each stored before the next is checked.
+ */
+
+import {
+  QuantishError,
+  RiskLimitError,
+  type Order,
+  type OrderBook,
+  type OrderSide,
+  type OrderStatus,
+  type RiskConfig,
+  type RiskLimits,
+  type User,
+} from '@quantish/types';
+import type { ServerContext } from '../context';
+import type { Exchange } from './exchange';
+
+export interface RiskCheckInput {
+  conditionId: string;
+  tokenId: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+}
+
+export interface RiskCheckOptions {
+  /** Order book already loaded by the caller, used for the price band */
+  book?: Pick<OrderBook, 'bids' | 'asks'>;
+  /** Orders of the same batch that are not stored yet; they count towards position and volume */
+  pending?: RiskCheckInput[];
+}
+
+export interface EffectiveRiskLimits {
+  maxOrderNotional: number | null;
+  maxPositionSize: number | null;
+  maxDailyVolume: number | null;
+  priceBand: number | null;
+  blockedMarkets: string[];
+}
+
+const OPEN_STATUSES: OrderStatus[] = ['PENDING', 'LIVE', 'PARTIALLY_FILLED'];
+const PAGE_SIZE = 500;
+/** Tolerance for float comparisons against limits */
+const EPSILON = 1e-9;
+
+/**
+ * USDC an order counts towards daily volume: its full size while it may
+ * still trade, only the filled part once it is final
+ */
+function orderVolume(order: Order): number {
+  if (order.status === 'FAILED') {
+    return 0;
+  }
+  const size = OPEN_STATUSES.includes(order.status) ? order.size : order.filledSize;
+  return size * order.price;
+}
+
+/**
+ * Midpoint of the best bid and ask, or null if either side is empty
+ */
+function midpoint(book: Pick<OrderBook, 'bids' | 'asks'>): number | null {
+  const bids = book.bids.map((entry) => Number(entry.price)).filter((price) => price > 0);
+  const asks = book.asks.map((entry) => Number(entry.price)).filter((price) => price > 0);
+  if (bids.length === 0 || asks.length === 0) {
+    return null;
+  }
+  return (Math.max(...bids) + Math.min(...asks)) / 2;
+}
+
+export class RiskEngine {
+  /** Tail of each user's queue of guarded placements */
+  private readonly placing: Map<string, Promise<unknown>> = new Map();
+
+  constructor(
+    private readonly ctx: Pick<ServerContext, 'database'>,
+    private readonly exchange: Pick<Exchange, 'getOrderBook'>,
+    private readonly config: RiskConfig = {}
+  ) {}
+
+  /**
+   * Limits that apply to a user after overrides
+   */
+  limitsFor(user: Pick<User, 'id' | 'externalId'>): EffectiveRiskLimits {
+    const global = this.config.limits || {};
+    const override: RiskLimits = this.config.users?.[user.id] || this.config.users?.[user.externalId] || {};
+    const pick = (name: 'maxOrderNotional' | 'maxPositionSize' | 'maxDailyVolume' | 'priceBand') =>
+      override[name] !== undefined ? override[name] ?? null : global[name] ?? null;
+
+    return {
+      maxOrderNotional: pick('maxOrderNotional'),
+      maxPositionSize: pick('maxPositionSize'),
+      maxDailyVolume: pick('maxDailyVolume'),
+      priceBand: pick('priceBand'),
+      blockedMarkets: [...new Set([...(global.blockedMarkets || []), ...(override.blockedMarkets || [])]
+        .map((market) => market.toLowerCase()))],
+    };
+  }
+
+  /**
+   * Run a check-then-place task after the user's earlier guarded tasks
+   *
+   * Without this, concurrent orders would all pass against the same stored
+   * orders and together go past the limit. Users without position or volume
+   * limits are not queued.
+   */
+  guard<T>(user: User, task: () => Promise<T>): Promise<T> {
+    const limits = this.limitsFor(user);
+    if (limits.maxPositionSize === null && limits.maxDailyVolume === null) {
+      return task();
+    }
+
+    const result = (this.placing.get(user.id) || Promise.resolve()).then(task);
+    const settled = result.catch(() => undefined);
+    this.placing.set(user.id, settled);
+    settled.then(() => {
+      if (this.placing.get(user.id) === settled) {
+        this.placing.delete(user.id);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Throw a RiskLimitError if the order breaks any of the user's limits
+   */
+  async check(user: User, order: RiskCheckInput, options: RiskCheckOptions = {}): Promise<void> {
+    const limits = this.limitsFor(user);
+    const notional = order.price * order.size;
+    const pending = options.pending || [];
+
+    if (limits.blockedMarkets.includes(order.conditionId.toLowerCase()) || limits.blockedMarkets.includes(order.tokenId)) {
+      throw new RiskLimitError('blockedMarkets', 'Trading this market is blocked', {
+        conditionId: order.conditionId,
+        tokenId: order.tokenId,
+      });
+    }
+
+    if (limits.maxOrderNotional !== null && notional > limits.maxOrderNotional + EPSILON) {
+      throw new RiskLimitError('maxOrderNotional', `Order notional ${notional} exceeds the limit of ${limits.maxOrderNotional}`, {
+        notional,
+        max: limits.maxOrderNotional,
+      });
+    }
+
+    if (limits.priceBand !== null) {
+      await this.checkPriceBand(order, limits.priceBand, options.book);
+    }
+
+    if (limits.maxPositionSize !== null && order.side === 'BUY') {
+      const held = await this.exposure(user.id, order.tokenId) + pending
+        .filter((other) => other.side === 'BUY' && other.tokenId === order.tokenId)
+        .reduce((total, other) => total + other.size, 0);
+      if (held + order.size > limits.maxPositionSize + EPSILON) {
+        throw new RiskLimitError(
+          'maxPositionSize',
+          `Position in token would reach ${held + order.size} shares, over the limit of ${limits.maxPositionSize}`,
+          { tokenId: order.tokenId, current: held, size: order.size, max: limits.maxPositionSize }
+        );
+      }
+    }
+
+    if (limits.maxDailyVolume !== null) {
+      const traded = await this.dailyVolume(user.id) + pending
+        .reduce((total, other) => total + other.price * other.size, 0);
+      if (traded + notional > limits.maxDailyVolume + EPSILON) {
+        throw new RiskLimitError(
+          'maxDailyVolume',
+          `Daily volume would reach ${traded + notional} USDC, over the limit of ${limits.maxDailyVolume}`,
+          { current: traded, notional, max: limits.maxDailyVolume }
+        );
+      }
+    }
+  }
+
+  /**
+   * Reject prices too far from the midpoint. Books without both sides have
+   * no midpoint and are not banded.
+   */
+  private async checkPriceBand(
+    order: RiskCheckInput,
+    band: number,
+    book?: Pick<OrderBook, 'bids' | 'asks'>
+  ): Promise<void> {
+    if (!book) {
+      const response = await this.exchange.getOrderBook(order.tokenId);
+      if (!response.success || !response.data) {
+        throw new QuantishError(response.error || 'Could not load order book', 'CLOB_ERROR', 502);
+      }
+      book = response.data;
+    }
+
+    const mid = midpoint(book);
+    if (mid !== null && Math.abs(order.price - mid) > band + EPSILON) {
+      throw new RiskLimitError(
+        'priceBand',
+        `Price ${order.price} is more than ${band} away from the midpoint ${mid}`,
+        { price: order.price, midpoint: mid, band }
+      );
+    }
+  }
+
+  /**
+   * Shares held in a token plus the unfilled part of open BUY orders for it
+   */
+  private async exposure(userId: string, tokenId: string): Promise<number> {
+    const positions = await this.ctx.database.getPositions(userId);
+    const held = positions
+      .filter((position) => position.tokenId === tokenId)
+      .reduce((total, position) => total + position.size, 0);
+
+    let pending = 0;
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.ctx.database.listOrders(userId, {
+        tokenId,
+        side: 'BUY',
+        status: OPEN_STATUSES,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      pending += page.reduce((total, order) => total + (order.size - order.filledSize), 0);
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return held + pending;
+  }
+
+  /**
+   * USDC volume of orders placed since the start of the UTC day
+   */
+  private async dailyVolume(userId: string, now: Date = new Date()): Promise<number> {
+    const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+    let volume = 0;
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.ctx.database.listOrders(userId, {
+        createdAfter: startOfDay,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      volume += page.reduce((total, order) => total + orderVolume(order), 0);
+      if (page.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return volume;
+  }
+}
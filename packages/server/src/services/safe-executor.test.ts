@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Transaction } from '@quantish/types';
+import { InMemoryAdapter } from '../adapters/base';
+import type { ServerContext } from '../context';
+import { confirmTransaction, settleTransaction, transactionError } from './safe-executor';
+
+const TX_HASH = `0x${'12'.repeat(32)}`;
+
+describe('confirmTransaction and settleTransaction', () => {
+  let database: InMemoryAdapter;
+  let waitForTransaction: ReturnType<typeof vi.fn>;
+  let getTransactionReceipt: ReturnType<typeof vi.fn>;
+  let ctx: Pick<ServerContext, 'database' | 'provider'>;
+
+  beforeEach(async () => {
+    database = new InMemoryAdapter();
+    await database.connect();
+    waitForTransaction = vi.fn();
+    getTransactionReceipt = vi.fn();
+    ctx = { database, provider: { waitForTransaction, getTransactionReceipt } as unknown as ServerContext['provider'] };
+  });
+
+  function submitted(overrides: Partial<Transaction> = {}): Promise<Transaction> {
+    return database.createTransaction({
+      userId: 'user-1',
+      type: 'SPLIT_POSITION',
+      status: overrides.status ?? 'SUBMITTED',
+      txHash: overrides.txHash === null ? undefined : overrides.txHash ?? TX_HASH,
+      metadata: { amount: 10 },
+    });
+  }
+
+  it('stores a mined transaction EXECUTED', async () => {
+    waitForTransaction.mockResolvedValue({ status: 1 });
+    const transaction = await submitted();
+
+    const confirmed = await confirmTransaction(ctx, transaction, 5000);
+
+    expect(waitForTransaction).toHaveBeenCalledWith(TX_HASH, 1, 5000);
+    expect(confirmed).toMatchObject({ id: transaction.id, status: 'EXECUTED', metadata: { amount: 10 } });
+    expect((await database.listTransactions('user-1'))[0].status).toBe('EXECUTED');
+  });
+
+  it('stores a reverted transaction FAILED with the reason', async () => {
+    waitForTransaction.mockResolvedValue({ status: 0 });
+
+    const confirmed = await confirmTransaction(ctx, await submitted());
+
+    expect(confirmed).toMatchObject({
+      status: 'FAILED',
+      metadata: { amount: 10, error: 'Transaction reverted on chain' },
+    });
+  });
+
+  it('leaves a transaction that is not mined in time SUBMITTED', async () => {
+    waitForTransaction.mockRejectedValue(new Error('timeout exceeded'));
+
+    const confirmed = await confirmTransaction(ctx, await submitted());
+
+    expect(confirmed.status).toBe('SUBMITTED');
+    expect((await database.listTransactions('user-1'))[0].status).toBe('SUBMITTED');
+  });
+
+  it('does not wait on a transaction the relayer rejected', async () => {
+    const rejected = await submitted({ status: 'FAILED', txHash: null });
+
+    expect(await confirmTransaction(ctx, rejected)).toBe(rejected);
+    expect(waitForTransaction).not.toHaveBeenCalled();
+  });
+
+  it('settles a transaction mined since without waiting for one that is not', async () => {
+    const transaction = await submitted();
+    getTransactionReceipt.mockResolvedValueOnce(null).mockResolvedValueOnce({ status: 1 });
+
+    expect((await settleTransaction(ctx, transaction)).status).toBe('SUBMITTED');
+    expect((await settleTransaction(ctx, transaction)).status).toBe('EXECUTED');
+    expect(getTransactionReceipt).toHaveBeenCalledWith(TX_HASH);
+    expect(waitForTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('transactionError', () => {
+  const transaction = (status: Transaction['status']): Transaction => ({
+    id: 'transaction-1',
+    userId: 'user-1',
+    type: 'MERGE_POSITIONS',
+    status,
+    txHash: TX_HASH,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  const relayed = { success: true, txHash: TX_HASH };
+
+  it('is null for an executed transaction', () => {
+    expect(transactionError(relayed, transaction('EXECUTED'), 'Relayer rejected merge')).toBeNull();
+  });
+
+  it.each([
+    [{ success: false, error: 'nonce too low' }, 'FAILED', 'RELAYER_ERROR', 502, 'nonce too low'],
+    [{ success: false }, 'FAILED', 'RELAYER_ERROR', 502, 'Relayer rejected merge'],
+    [relayed, 'FAILED', 'TRANSACTION_REVERTED', 502, `Transaction ${TX_HASH} reverted`],
+    [relayed, 'SUBMITTED', 'TRANSACTION_PENDING', 504, `Transaction ${TX_HASH} was not mined in time`],
+  ] as const)('reports %j stored %s as %s', (result, status, code, statusCode, message) => {
+    expect(transactionError(result, transaction(status), 'Relayer rejected merge')).toMatchObject({
+      code,
+      statusCode,
+      message,
+      details: { transactionId: 'transaction-1', txHash: TX_HASH },
+    });
+  });
+});
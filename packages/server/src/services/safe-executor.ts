@@ -0,0 +1,118 @@
+/**
+ * Safe Executor - Sign a call from the user's Safe, submit it via the relayer
+ * and wait for it to be mined
+ */
+
+import type { ethers } from 'ethers';
+import { QuantishError, type Transaction } from '@quantish/types';
+import { buildSafeTransaction, type RelayerResponse, type SafeOperation } from '@quantish/core';
+import type { ServerContext } from '../context';
+
+export interface SafeCall {
+  /** Target contract */
+  to: string;
+  /** ABI-encoded calldata */
+  data: string;
+  /** DELEGATECALL instead of CALL (MultiSend batches) */
+  operation?: SafeOperation;
+}
+
+/**
+ * Sign and relay a Safe transaction
+ */
+export async function executeSafeCall(
+  ctx: Pick<ServerContext, 'relayer'>,
+  wallet: ethers.Wallet,
+  safeAddress: string,
+  call: SafeCall
+): Promise<RelayerResponse> {
+  const tx = await buildSafeTransaction(wallet, safeAddress, call.to, call.data, call.operation);
+
+  return ctx.relayer.executeTransaction({
+    safeAddress,
+    to: tx.to,
+    data: tx.data,
+    ownerAddress: wallet.address,
+    signature: tx.signature,
+    operation: tx.operation,
+  });
+}
+
+/** How long to wait for a relayed transaction to be mined (ms) */
+export const CONFIRMATION_TIMEOUT = 120000;
+
+/**
+ * Wait for a submitted transaction to be mined and store its outcome
+ *
+ * Returns the transaction EXECUTED, or FAILED if it reverted. One that is not
+ * mined within the timeout is returned still SUBMITTED.
+ */
+export async function confirmTransaction(
+  ctx: Pick<ServerContext, 'database' | 'provider'>,
+  transaction: Transaction,
+  timeout: number = CONFIRMATION_TIMEOUT
+): Promise<Transaction> {
+  if (transaction.status !== 'SUBMITTED' || !transaction.txHash) {
+    return transaction;
+  }
+  const receipt = await ctx.provider.waitForTransaction(transaction.txHash, 1, timeout).catch(() => null);
+  return recordReceipt(ctx, transaction, receipt);
+}
+
+/**
+ * Store the outcome of a submitted transaction that has been mined since,
+ * without waiting for one that has not
+ */
+export async function settleTransaction(
+  ctx: Pick<ServerContext, 'database' | 'provider'>,
+  transaction: Transaction
+): Promise<Transaction> {
+  if (transaction.status !== 'SUBMITTED' || !transaction.txHash) {
+    return transaction;
+  }
+  return recordReceipt(ctx, transaction, await ctx.provider.getTransactionReceipt(transaction.txHash));
+}
+
+async function recordReceipt(
+  ctx: Pick<ServerContext, 'database'>,
+  transaction: Transaction,
+  receipt: ethers.providers.TransactionReceipt | null
+): Promise<Transaction> {
+  if (!receipt) {
+    return transaction;
+  }
+  return ctx.database.updateTransaction(transaction.id, receipt.status === 0
+    ? { status: 'FAILED', metadata: { ...transaction.metadata, error: 'Transaction reverted on chain' } }
+    : { status: 'EXECUTED' });
+}
+
+/**
+ * The error for a relayed transaction that did not execute, or null if it did
+ */
+export function transactionError(
+  result: RelayerResponse,
+  transaction: Transaction,
+  rejected: string
+): QuantishError | null {
+  const details = { transactionId: transaction.id, txHash: transaction.txHash };
+  if (!result.success) {
+    return new QuantishError(result.error || rejected, 'RELAYER_ERROR', 502, details);
+  }
+  if (transaction.status === 'FAILED') {
+    return new QuantishError(`Transaction ${transaction.txHash} reverted`, 'TRANSACTION_REVERTED', 502, details);
+  }
+  if (transaction.status !== 'EXECUTED') {
+    return new QuantishError(`Transaction ${transaction.txHash} was not mined in time`, 'TRANSACTION_PENDING', 504, details);
+  }
+  return null;
+}
+
+/**
+ * Ensure the user has a deployed Safe and return its address
+ */
+export function requireSafe(user: { safeAddress?: string | null; safeDeployed: boolean }): string {
+  if (!user.safeAddress || !user.safeDeployed) {
+    throw new QuantishError('Safe is not deployed. Run POST /v1/wallet/setup first.', 'SAFE_NOT_DEPLOYED', 409);
+  }
+  return user.safeAddress;
+}
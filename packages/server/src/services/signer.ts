@@ -0,0 +1,46 @@
+/**
+ * Signer - Recover a user's wallet from its encrypted key
+ */
+
+import type { ethers } from 'ethers';
+import { NotFoundError, type UserWithKey } from '@quantish/types';
+import { recoverWalletAsync, type EncryptedData } from '@quantish/core';
+import type { ServerContext } from '../context';
+
+export interface UserSigner {
+  /** The user record, including encrypted key material */
+  user: UserWithKey;
+  /** The decrypted EOA wallet */
+  wallet: ethers.Wallet;
+}
+
+/**
+ * Map a user's stored key columns to KeyVault ciphertext
+ */
+export function toEncryptedData(user: UserWithKey): EncryptedData {
+  return {
+    encrypted: user.encryptedPrivateKey,
+    iv: user.keyIv,
+    authTag: user.keyAuthTag,
+    keyVersion: user.keyVersion ?? undefined,
+    wrappedDataKey: user.wrappedDataKey ?? undefined,
+    kekId: user.kekId ?? undefined,
+  };
+}
+
+/**
+ * Load a user and decrypt their EOA wallet
+ */
+export async function loadUserSigner(
+  ctx: Pick<ServerContext, 'database' | 'keyVault'>,
+  userId: string
+): Promise<UserSigner> {
+  const user = await ctx.database.getUserWithKey(userId);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  const { wallet } = await recoverWalletAsync(ctx.keyVault, toEncryptedData(user));
+
+  return { user, wallet };
+}
@@ -0,0 +1,125 @@
+/**
+ * Transfer - Withdraw USDC from a user's Safe to an external address
+ */
+
+import { ethers } from 'ethers';
+import {
+  InsufficientBalanceError,
+  QuantishError,
+  ValidationError,
+  type Transaction,
+} from '@quantish/types';
+import { getTokenBalance, POLYGON_CONTRACTS } from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import { executeSafeCall, requireSafe } from './safe-executor';
+
+export type TransferToken = 'usdc' | 'nativeUsdc';
+
+export interface TransferUsdcInput {
+  /** Destination address */
+  to: string;
+  /** Amount in USDC units, e.g. "25.5" */
+  amount: string;
+  /** Which USDC to send (default: bridged usdc) */
+  token?: TransferToken;
+}
+
+export interface TransferUsdcResult {
+  transaction: Transaction;
+  txHash?: string;
+}
+
+const USDC_DECIMALS = 6;
+
+const ERC20_TRANSFER_ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+];
+
+/**
+ * Validate and normalize a transfer request body
+ */
+export function parseTransferInput(body: unknown): Required<TransferUsdcInput> {
+  const { to, amount, token = 'usdc' } = (body || {}) as Record<string, unknown>;
+
+  if (typeof to !== 'string' || !ethers.utils.isAddress(to)) {
+    throw new ValidationError('`to` must be a valid address', { to });
+  }
+  if (token !== 'usdc' && token !== 'nativeUsdc') {
+    throw new ValidationError('`token` must be "usdc" or "nativeUsdc"', { token });
+  }
+
+  const amountString = typeof amount === 'number' ? amount.toString() : amount;
+  if (typeof amountString !== 'string' || !/^\d+(\.\d{1,6})?$/.test(amountString)) {
+    throw new ValidationError('`amount` must be a positive decimal with at most 6 places', { amount });
+  }
+  if (ethers.utils.parseUnits(amountString, USDC_DECIMALS).isZero()) {
+    throw new ValidationError('`amount` must be greater than zero', { amount });
+  }
+
+  return { to: ethers.utils.getAddress(to), amount: amountString, token };
+}
+
+/**
+ * Send USDC from the user's Safe
+ */
+export async function transferUsdc(
+  ctx: ServerContext,
+  userId: string,
+  input: Required<TransferUsdcInput>
+): Promise<TransferUsdcResult> {
+  const { database, provider } = ctx;
+  const { user, wallet } = await loadUserSigner(ctx, userId);
+  const safeAddress = requireSafe(user);
+
+  const tokenAddress = POLYGON_CONTRACTS[input.token];
+  const rawAmount = ethers.utils.parseUnits(input.amount, USDC_DECIMALS);
+
+  const balance = await getTokenBalance(provider, tokenAddress, safeAddress);
+  if (balance.lt(rawAmount)) {
+    throw new InsufficientBalanceError(
+      `Insufficient ${input.token} balance: have ${ethers.utils.formatUnits(balance, USDC_DECIMALS)}, need ${input.amount}`
+    );
+  }
+
+  const data = new ethers.utils.Interface(ERC20_TRANSFER_ABI).encodeFunctionData('transfer', [
+    input.to,
+    rawAmount,
+  ]);
+  const result = await executeSafeCall(ctx, wallet, safeAddress, { to: tokenAddress, data });
+
+  const metadata = {
+    to: input.to,
+    amount: input.amount,
+    token: input.token,
+    tokenAddress,
+    safeAddress,
+    ...(result.error && { error: result.error }),
+  };
+
+  const transaction = await database.createTransaction({
+    userId,
+    type: 'TRANSFER_USDC',
+    status: result.success ? 'SUBMITTED' : 'FAILED',
+    txHash: result.txHash,
+    metadata,
+  });
+
+  await database.logActivity({
+    userId,
+    action: 'wallet.transfer',
+    resource: 'transaction',
+    resourceId: transaction.id,
+    details: metadata,
+    success: result.success,
+    errorMessage: result.error,
+  });
+
+  if (!result.success) {
+    throw new QuantishError(result.error || 'Relayer rejected transfer', 'RELAYER_ERROR', 502, {
+      transactionId: transaction.id,
+    });
+  }
+
+  return { transaction, txHash: result.txHash };
+}
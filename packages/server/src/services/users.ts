@@ -0,0 +1,208 @@
+/**
+ * Users - Provision users and issue API keys
+ */
+
+import { QuantishError, type ApiKey, type DatabaseAdapter, type User } from '@quantish/types';
+import {
+  deriveSafeAddress,
+  generateWalletAsync,
+  generateApiKey,
+  generateApiSecret,
+  type KeyVault,
+} from '@quantish/core';
+
+export interface IssuedApiKey {
+  /** The stored key record */
+  apiKey: ApiKey;
+  /** Plaintext API key (only returned at creation) */
+  key: string;
+  /** Plaintext API secret for HMAC signing (only returned at creation) */
+  secret: string;
+}
+
+export interface ProvisionUserInput {
+  /** Your system's identifier for the user */
+  externalId: string;
+  /** Optional name for the first API key */
+  keyName?: string;
+  /** Create a paper-trading user with this much virtual USDC */
+  paper?: { balance: number };
+}
+
+export interface ProvisionUserResult {
+  user: User;
+  /** False when a user with this externalId already existed */
+  created: boolean;
+  /**
+   * First API key: present when the user was created, or when an existing
+   * user had no active key left
+   */
+  credentials?: IssuedApiKey;
+}
+
+/**
+ * Strip storage-only fields (such as encrypted key columns) from a user
+ */
+export function toPublicUser(user: User): User {
+  return {
+    id: user.id,
+    externalId: user.externalId,
+    eoaAddress: user.eoaAddress,
+    safeAddress: user.safeAddress ?? null,
+    safeDeployed: user.safeDeployed,
+    clobApiKeyCreated: user.clobApiKeyCreated,
+    approvalsGranted: user.approvalsGranted,
+    paper: user.paper ?? false,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
+
+/**
+ * Strip the hash, secret and joined user from an API key record
+ */
+export function toPublicApiKey(apiKey: ApiKey): ApiKey {
+  return {
+    id: apiKey.id,
+    userId: apiKey.userId,
+    name: apiKey.name ?? null,
+    keyPrefix: apiKey.keyPrefix,
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt ?? null,
+    expiresAt: apiKey.expiresAt ?? null,
+    revokedAt: apiKey.revokedAt ?? null,
+  };
+}
+
+/**
+ * Generate and store a new API key for a user
+ */
+export async function issueApiKey(
+  database: DatabaseAdapter,
+  userId: string,
+  options: { name?: string; expiresAt?: Date } = {}
+): Promise<IssuedApiKey> {
+  const { key, keyPrefix, keyHash } = generateApiKey();
+  const secret = generateApiSecret();
+
+  const apiKey = await database.createApiKey(userId, {
+    name: options.name,
+    expiresAt: options.expiresAt,
+    keyHash,
+    keyPrefix,
+    apiSecret: secret,
+  });
+
+  return { apiKey, key, secret };
+}
+
+/**
+ * Reject reusing a live user as a paper user or the other way round
+ */
+function checkMode(user: User, input: ProvisionUserInput): User {
+  if (!!user.paper !== !!input.paper) {
+    throw new QuantishError(
+      `User ${input.externalId} already exists as a ${user.paper ? 'paper' : 'live'} user`,
+      'USER_MODE_CONFLICT',
+      409
+    );
+  }
+  return user;
+}
+
+/**
+ * Issue a key to an existing user that has no active one, e.g. when an
+ * earlier provisioning attempt failed between creating the user and its key
+ */
+async function recoverCredentials(
+  database: DatabaseAdapter,
+  user: User,
+  input: ProvisionUserInput
+): Promise<ProvisionUserResult> {
+  const now = new Date();
+  const keys = await database.listApiKeys(user.id);
+  if (keys.some((key) => !key.revokedAt && (!key.expiresAt || new Date(key.expiresAt) > now))) {
+    return { user, created: false };
+  }
+
+  if (user.paper && !user.safeAddress) {
+    user = await database.updateUser(user.id, { safeAddress: deriveSafeAddress(user.eoaAddress) });
+  }
+
+  const credentials = await issueApiKey(database, user.id, { name: input.keyName });
+
+  await database.logActivity({
+    userId: user.id,
+    action: 'apiKey.create',
+    resource: 'apiKey',
+    resourceId: credentials.apiKey.id,
+    details: { keyPrefix: credentials.apiKey.keyPrefix, reason: 'no active key' },
+    success: true,
+  });
+
+  return { user, created: false, credentials };
+}
+
+/**
+ * Create a user with a fresh encrypted wallet and a first API key
+ *
+ * Idempotent on externalId: if the user already exists it is returned
+ * without credentials, unless it has no active API key, in which case one
+ * is issued. An existing user of the other mode (paper vs live) is a
+ * conflict, never reused.
+ *
+ * Paper users get their counterfactual Safe address right away; they never
+ * deploy it.
+ */
+export async function provisionUser(
+  ctx: { database: DatabaseAdapter; keyVault: KeyVault },
+  input: ProvisionUserInput
+): Promise<ProvisionUserResult> {
+  const { database, keyVault } = ctx;
+
+  const existing = await database.getUserByExternalId(input.externalId);
+  if (existing) {
+    return recoverCredentials(database, checkMode(existing, input), input);
+  }
+
+  const wallet = await generateWalletAsync(keyVault);
+
+  let user: User;
+  try {
+    user = await database.createUser({
+      externalId: input.externalId,
+      eoaAddress: wallet.address,
+      encryptedPrivateKey: wallet.encryptedKey.encrypted,
+      keyIv: wallet.encryptedKey.iv,
+      keyAuthTag: wallet.encryptedKey.authTag,
+      keyVersion: wallet.encryptedKey.keyVersion,
+      wrappedDataKey: wallet.encryptedKey.wrappedDataKey,
+      kekId: wallet.encryptedKey.kekId,
+      ...(input.paper && { paper: true, paperBalance: input.paper.balance }),
+    });
+  } catch (error) {
+    // A concurrent request may have created the same user first
+    const raced = await database.getUserByExternalId(input.externalId);
+    if (raced) {
+      return { user: checkMode(raced, input), created: false };
+    }
+    throw error;
+  }
+
+  if (input.paper) {
+    user = await database.updateUser(user.id, { safeAddress: deriveSafeAddress(user.eoaAddress) });
+  }
+
+  const credentials = await issueApiKey(database, user.id, { name: input.keyName });
+
+  await database.logActivity({
+    userId: user.id,
+    action: 'user.create',
+    resource: 'user',
+    resourceId: user.id,
+    details: { externalId: user.externalId, keyPrefix: credentials.apiKey.keyPrefix, paper: !!input.paper },
+    success: true,
+  });
+
+  return { user, created: true, credentials };
+}
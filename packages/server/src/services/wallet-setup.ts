@@ -0,0 +1,258 @@
+/**
+ * Wallet Setup - Drive a user from bare EOA to trade-ready
+ *
+ * Steps run in order and each one is skipped when the user record shows it
+ * already completed (approvals are read from chain instead), so a failed
+ * setup can simply be retried.
+ *
+ * A relayed transaction only counts once it is mined and the chain shows
+ * its effect: safeDeployed and approvalsGranted are never set on submission
+ * alone. A Safe the chain already has is not deployed again, so a retry
+ * after a slow deployment picks it up.
+ */
+
+import { QuantishError, type User, type WalletStatus } from '@quantish/types';
+import {
+  deriveSafeAddress,
+  verifyWalletAddress,
+  createSafeDeploymentSignature,
+  encodeApprovalCall,
+  encodeMultiSend,
+  isContractDeployed,
+  POLYGON_CONTRACTS,
+  SafeOperation,
+} from '@quantish/core';
+import type { ServerContext } from '../context';
+import { loadUserSigner } from './signer';
+import { executeSafeCall } from './safe-executor';
+import { syncApprovals } from './approvals';
+import { ClobCredentialStore } from './clob-credentials';
+
+export type WalletSetupStep =
+  | 'PREDICT_SAFE'
+  | 'DEPLOY_SAFE'
+  | 'CREATE_API_CREDENTIALS'
+  | 'GRANT_APPROVALS';
+
+export interface WalletSetupStepResult {
+  step: WalletSetupStep;
+  status: 'completed' | 'skipped' | 'failed';
+  txHash?: string;
+  error?: string;
+}
+
+export interface WalletSetupResult {
+  status: WalletStatus;
+  steps: WalletSetupStepResult[];
+}
+
+/**
+ * Build the public wallet status for a user
+ */
+export function toWalletStatus(user: User): WalletStatus {
+  return {
+    isSetup: user.safeDeployed && user.clobApiKeyCreated && user.approvalsGranted,
+    eoaAddress: user.eoaAddress,
+    safeAddress: user.safeAddress ?? undefined,
+    safeDeployed: user.safeDeployed,
+    clobApiKeyCreated: user.clobApiKeyCreated,
+    approvalsGranted: user.approvalsGranted,
+  };
+}
+
+/** How long to wait for a relayed setup transaction to be mined (ms) */
+const CONFIRMATION_TIMEOUT = 120000;
+
+export class WalletSetupPipeline {
+  private readonly inFlight: Map<string, Promise<WalletSetupResult>> = new Map();
+
+  constructor(
+    private readonly ctx: ServerContext,
+    private readonly credentials: ClobCredentialStore = new ClobCredentialStore(ctx),
+    private readonly confirmationTimeout = CONFIRMATION_TIMEOUT
+  ) {}
+
+  /**
+   * Run (or resume) wallet setup for a user
+   *
+   * Concurrent calls for the same user share a single run.
+   */
+  run(userId: string): Promise<WalletSetupResult> {
+    const existing = this.inFlight.get(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const run = this.execute(userId).finally(() => {
+      this.inFlight.delete(userId);
+    });
+    this.inFlight.set(userId, run);
+    return run;
+  }
+
+  private async execute(userId: string): Promise<WalletSetupResult> {
+    const { database, relayer, provider } = this.ctx;
+    const { user: userWithKey, wallet } = await loadUserSigner(this.ctx, userId);
+    let user: User = userWithKey;
+    const steps: WalletSetupStepResult[] = [];
+
+    const fail = async (step: WalletSetupStep, error: string): Promise<never> => {
+      steps.push({ step, status: 'failed', error });
+      await database.logActivity({
+        userId,
+        action: 'wallet.setup',
+        resource: 'wallet',
+        resourceId: user.safeAddress ?? undefined,
+        details: { step },
+        success: false,
+        errorMessage: error,
+      });
+      throw new QuantishError(`Wallet setup failed at ${step}: ${error}`, 'WALLET_SETUP_FAILED', 502, {
+        status: toWalletStatus(user),
+        steps,
+      });
+    };
+
+    // Step 1: predict the Safe address, confirmed by the factory before anything is deployed
+    const predictedSafe = deriveSafeAddress(user.eoaAddress);
+    const storedMatches = !!user.safeAddress && user.safeAddress.toLowerCase() === predictedSafe.toLowerCase();
+    if (storedMatches && user.safeDeployed) {
+      steps.push({ step: 'PREDICT_SAFE', status: 'skipped' });
+    } else if (user.safeAddress && user.safeDeployed) {
+      // Never overwrite an address that already holds a deployed Safe
+      await fail('PREDICT_SAFE', `Stored Safe ${user.safeAddress} does not match predicted ${predictedSafe}`);
+    } else {
+      const verification = await verifyWalletAddress(this.ctx.provider, user.eoaAddress).catch((error) =>
+        fail('PREDICT_SAFE', `Could not confirm Safe address with factory: ${error instanceof Error ? error.message : error}`)
+      );
+      if (!verification.verified) {
+        await fail('PREDICT_SAFE', `Derived Safe ${verification.derived} does not match factory ${verification.onChain}`);
+      }
+
+      if (!storedMatches) {
+        user = await database.updateUser(userId, { safeAddress: predictedSafe });
+      }
+      steps.push({ step: 'PREDICT_SAFE', status: 'completed' });
+    }
+    const safeAddress = predictedSafe;
+
+    const confirm = async (step: WalletSetupStep, txHash: string | undefined): Promise<void> => {
+      if (!txHash) {
+        return;
+      }
+      const receipt = await provider.waitForTransaction(txHash, 1, this.confirmationTimeout).catch(() => null);
+      if (!receipt) {
+        await fail(step, `Transaction ${txHash} was not mined in time; run setup again once it is`);
+      } else if (receipt.status === 0) {
+        await fail(step, `Transaction ${txHash} reverted`);
+      }
+    };
+
+    // Step 2: deploy the Safe via the relayer, unless the chain already has it
+    const deployed = user.safeDeployed || await isContractDeployed(provider, safeAddress).catch((error) =>
+      fail('DEPLOY_SAFE', `Could not read Safe code: ${error instanceof Error ? error.message : error}`)
+    );
+    if (user.safeDeployed) {
+      steps.push({ step: 'DEPLOY_SAFE', status: 'skipped' });
+    } else if (deployed) {
+      user = await database.updateUser(userId, { safeDeployed: true });
+      steps.push({ step: 'DEPLOY_SAFE', status: 'completed' });
+    } else {
+      const signature = await createSafeDeploymentSignature(
+        wallet,
+        POLYGON_CONTRACTS.safeProxyFactory,
+        safeAddress
+      );
+      const result = await relayer.deploySafe({
+        ownerAddress: wallet.address,
+        proxyWallet: safeAddress,
+        proxyFactory: POLYGON_CONTRACTS.safeProxyFactory,
+        signature,
+      });
+
+      await database.createTransaction({
+        userId,
+        type: 'DEPLOY_SAFE',
+        status: result.success ? 'SUBMITTED' : 'FAILED',
+        txHash: result.txHash,
+        metadata: { safeAddress, ...(result.error && { error: result.error }) },
+      });
+
+      if (!result.success) {
+        await fail('DEPLOY_SAFE', result.error || 'Relayer rejected Safe deployment');
+      }
+      await confirm('DEPLOY_SAFE', result.txHash);
+      if (!await isContractDeployed(provider, safeAddress)) {
+        await fail('DEPLOY_SAFE', `Safe ${safeAddress} has no code after deployment`);
+      }
+
+      user = await database.updateUser(userId, { safeDeployed: true });
+      steps.push({ step: 'DEPLOY_SAFE', status: 'completed', txHash: result.txHash });
+    }
+
+    // Step 3: create (or derive) CLOB API credentials, kept for trading
+    if (user.clobApiKeyCreated) {
+      steps.push({ step: 'CREATE_API_CREDENTIALS', status: 'skipped' });
+    } else {
+      await this.credentials.get(userId, wallet).catch((error) =>
+        fail('CREATE_API_CREDENTIALS', error instanceof Error ? error.message : String(error))
+      );
+
+      user = await database.updateUser(userId, { clobApiKeyCreated: true });
+      steps.push({ step: 'CREATE_API_CREDENTIALS', status: 'completed' });
+    }
+
+    // Step 4: grant whichever trading approvals the Safe is missing on chain,
+    // batched into one MultiSend transaction
+    const approvals = await syncApprovals(this.ctx, user, safeAddress).catch((error) =>
+      fail('GRANT_APPROVALS', `Could not read approvals: ${error instanceof Error ? error.message : error}`)
+    );
+    user = approvals.user;
+    const missing = approvals.approvals.filter((approval) => !approval.granted);
+
+    if (missing.length === 0) {
+      steps.push({ step: 'GRANT_APPROVALS', status: 'skipped' });
+    } else {
+      const result = await executeSafeCall(this.ctx, wallet, safeAddress, {
+        to: POLYGON_CONTRACTS.multiSend,
+        data: encodeMultiSend(missing.map(encodeApprovalCall)),
+        operation: SafeOperation.DelegateCall,
+      });
+
+      await database.createTransaction({
+        userId,
+        type: 'GRANT_APPROVALS',
+        status: result.success ? 'SUBMITTED' : 'FAILED',
+        txHash: result.txHash,
+        metadata: {
+          safeAddress,
+          approvals: missing.map(({ kind, token, spender }) => ({ kind, token, spender })),
+          ...(result.error && { error: result.error }),
+        },
+      });
+
+      if (!result.success) {
+        await fail('GRANT_APPROVALS', result.error || 'Relayer rejected approval transaction');
+      }
+      await confirm('GRANT_APPROVALS', result.txHash);
+
+      const granted = await syncApprovals(this.ctx, user, safeAddress);
+      user = granted.user;
+      if (!granted.allGranted) {
+        await fail('GRANT_APPROVALS', 'Approvals are still missing on chain after the transaction');
+      }
+      steps.push({ step: 'GRANT_APPROVALS', status: 'completed', txHash: result.txHash });
+    }
+
+    await database.logActivity({
+      userId,
+      action: 'wallet.setup',
+      resource: 'wallet',
+      resourceId: safeAddress,
+      details: { steps },
+      success: true,
+    });
+
+    return { status: toWalletStatus(user), steps };
+  }
+}
@@ -34,10 +34,53 @@ export interface ServerConfig {
 }
 
 export interface EncryptionConfig {
-  /** Master key for AES-256-GCM encryption (32 bytes, hex or base64) */
-  masterKey: string;
-  /** Encryption algorithm (default: aes-256-gcm) */
-  algorithm?: 'aes-256-gcm';
+  /**
+   * Master key for AES-256-GCM encryption (32 bytes, hex or base64).
+   * Required for aes-256-gcm; with envelope encryption it is only used to
+   * read data written before the switch.
+   */
+  masterKey?: string;
+  /** Version number of masterKey (default: 1) */
+  keyVersion?: number;
+  /** Retired master keys that can still decrypt existing data */
+  previousKeys?: Array<{ version: number; masterKey: string }>;
+  /**
+   * Encryption algorithm (default: aes-256-gcm, or envelope-aes-256-gcm
+   * when a keyProvider is given)
+   */
+  algorithm?: 'aes-256-gcm' | 'envelope-aes-256-gcm';
+  /** Key-encryption-key provider for envelope encryption */
+  keyProvider?: KeyEncryptionProvider | LocalKeyProviderConfig;
+}
+
+/**
+ * Wraps and unwraps per-user data keys with a key-encryption key (KEK).
+ * Implement this to back envelope encryption with a cloud KMS or HSM.
+ */
+export interface KeyEncryptionProvider {
+  /** Id of the KEK used to wrap new data keys */
+  readonly currentKeyId: string;
+  /** Wrap a data key with the current KEK */
+  wrapKey(dataKey: Uint8Array): Promise<WrappedDataKey>;
+  /** Unwrap a data key with the KEK it was wrapped by */
+  unwrapKey(wrapped: WrappedDataKey): Promise<Uint8Array>;
+}
+
+export interface WrappedDataKey {
+  /** Id of the KEK that wrapped the data key */
+  keyId: string;
+  /** Base64 encoded wrapped data key */
+  ciphertext: string;
+}
+
+export interface LocalKeyProviderConfig {
+  type: 'local';
+  /** Path to a JSON key file: { "currentKeyId": "...", "keys": { "<id>": "<hex or base64>" } } */
+  keyFile?: string;
+  /** KEKs by id, as an alternative to keyFile */
+  keys?: Record<string, string>;
+  /** Id of the KEK used for new data keys (defaults to the key file's currentKeyId) */
+  currentKeyId?: string;
 }
 
 export interface RelayerConfig {
@@ -72,20 +115,30 @@ export interface DatabaseAdapter {
   createUser(data: CreateUserInput): Promise<User>;
   getUserById(id: string): Promise<User | null>;
   getUserByExternalId(externalId: string): Promise<User | null>;
+  getUserWithKey(id: string): Promise<UserWithKey | null>;
   updateUser(id: string, data: Partial<User>): Promise<User>;
+  listUsersWithKeys(options: ListUsersWithKeysOptions): Promise<UserWithKey[]>;
+  updateUserKey(id: string, data: UpdateUserKeyInput): Promise<void>;
   
   // API Key operations
   createApiKey(userId: string, data: CreateApiKeyInput): Promise<ApiKey>;
   getApiKeyByHash(hash: string): Promise<ApiKeyWithUser | null>;
   revokeApiKey(id: string): Promise<void>;
   listApiKeys(userId: string): Promise<ApiKey[]>;
+  touchApiKey(id: string, usedAt: Date): Promise<void>;
   
   // Order operations
   createOrder(data: CreateOrderInput): Promise<Order>;
   getOrderById(id: string): Promise<Order | null>;
   getOrderByClobId(clobOrderId: string): Promise<Order | null>;
-  updateOrder(id: string, data: Partial<Order>): Promise<Order>;
+  updateOrder(id: string, data: UpdateOrderInput): Promise<Order>;
   listOrders(userId: string, filters?: OrderFilters): Promise<Order[]>;
+  /** Open GTD orders of any user whose expiresAt is at or before `before`, oldest first */
+  listExpiredOrders(before: Date, limit: number): Promise<Order[]>;
+
+  // Fill operations
+  createFill(data: CreateFillInput): Promise<CreateFillResult>;
+  listFills(userId: string, filters?: FillFilters): Promise<Fill[]>;
   
   // Position operations
   upsertPosition(data: UpsertPositionInput): Promise<Position>;
@@ -93,6 +146,9 @@ export interface DatabaseAdapter {
   
   // Transaction logging
   createTransaction(data: CreateTransactionInput): Promise<Transaction>;
+  updateTransaction(id: string, data: UpdateTransactionInput): Promise<Transaction>;
+  /** Oldest first */
+  listTransactions(userId: string, filters?: TransactionFilters): Promise<Transaction[]>;
   
   // Activity logging
   logActivity(data: CreateActivityInput): Promise<void>;
@@ -110,16 +166,53 @@ export interface User {
   safeDeployed: boolean;
   clobApiKeyCreated: boolean;
   approvalsGranted: boolean;
+  /** Paper-trading user; only accepted by a server in paper mode */
+  paper?: boolean;
+  /** Virtual USDC of a paper user */
+  paperBalance?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface UserWithKey extends User {
+  encryptedPrivateKey: string;
+  keyIv: string;
+  keyAuthTag: string;
+  /** Master key version the private key is encrypted under (null = legacy, version 1) */
+  keyVersion?: number | null;
+  /** Wrapped per-user data key (envelope encryption only) */
+  wrappedDataKey?: string | null;
+  /** Id of the KEK that wrapped the data key (envelope encryption only) */
+  kekId?: string | null;
+}
+
 export interface CreateUserInput {
   externalId: string;
   eoaAddress: string;
   encryptedPrivateKey: string;
   keyIv: string;
   keyAuthTag: string;
+  keyVersion?: number;
+  wrappedDataKey?: string;
+  kekId?: string;
+  paper?: boolean;
+  paperBalance?: number;
+}
+
+export interface UpdateUserKeyInput {
+  encryptedPrivateKey: string;
+  keyIv: string;
+  keyAuthTag: string;
+  keyVersion: number | null;
+  wrappedDataKey: string | null;
+  kekId: string | null;
+}
+
+export interface ListUsersWithKeysOptions {
+  /** Return users with an id greater than this (ordered by id) */
+  afterId?: string;
+  /** Maximum number of users to return */
+  limit: number;
 }
 
 // ============================================
@@ -133,6 +226,7 @@ export interface ApiKey {
   keyPrefix: string;
   createdAt: Date;
   lastUsedAt?: Date | null;
+  expiresAt?: Date | null;
   revokedAt?: Date | null;
 }
 
@@ -146,6 +240,7 @@ export interface CreateApiKeyInput {
   keyHash: string;
   keyPrefix: string;
   apiSecret?: string;
+  expiresAt?: Date;
 }
 
 // ============================================
@@ -154,7 +249,35 @@ export interface CreateApiKeyInput {
 
 export type OrderSide = 'BUY' | 'SELL';
 export type OrderType = 'GTC' | 'GTD' | 'FOK' | 'FAK';
-export type OrderStatus = 'PENDING' | 'LIVE' | 'FILLED' | 'CANCELLED' | 'FAILED';
+export type OrderStatus =
+  | 'PENDING'
+  | 'LIVE'
+  | 'PARTIALLY_FILLED'
+  | 'FILLED'
+  | 'CANCELLED'
+  | 'EXPIRED'
+  | 'FAILED';
+
+/**
+ * Statuses each order status may move to. FILLED, CANCELLED, EXPIRED and
+ * FAILED are final.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: ['LIVE', 'PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'EXPIRED', 'FAILED'],
+  LIVE: ['PARTIALLY_FILLED', 'FILLED', 'CANCELLED', 'EXPIRED'],
+  PARTIALLY_FILLED: ['FILLED', 'CANCELLED', 'EXPIRED'],
+  FILLED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+  FAILED: [],
+};
+
+/**
+ * Whether an order may move from one status to another (staying put is allowed)
+ */
+export function canTransitionOrder(from: OrderStatus, to: OrderStatus): boolean {
+  return from === to || ORDER_STATUS_TRANSITIONS[from].includes(to);
+}
 
 export interface Order {
   id: string;
@@ -168,6 +291,8 @@ export interface Order {
   size: number;
   filledSize: number;
   status: OrderStatus;
+  /** When a GTD order expires; null for other order types */
+  expiresAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -182,16 +307,116 @@ export interface CreateOrderInput {
   size: number;
   clobOrderId?: string;
   status?: OrderStatus;
+  expiresAt?: Date;
 }
 
-export interface OrderFilters {
+/** Position of an order in createdAt/id order, for keyset pagination */
+export interface OrderCursor {
+  createdAt: Date;
+  id: string;
+}
+
+/**
+ * Fields that may be changed on an existing order; filledSize follows from fills
+ */
+export interface UpdateOrderInput {
   status?: OrderStatus;
+  clobOrderId?: string | null;
+}
+
+export interface OrderFilters {
+  /** A single status, or any of several */
+  status?: OrderStatus | OrderStatus[];
   side?: OrderSide;
+  type?: OrderType;
   conditionId?: string;
+  tokenId?: string;
+  /** Only orders created at or after this time */
+  createdAfter?: Date;
+  /** Only orders created before this time */
+  createdBefore?: Date;
+  /** Order by createdAt, then id (default: desc) */
+  sort?: 'asc' | 'desc';
+  /** Only orders that come after this cursor in the sort order */
+  after?: OrderCursor;
+  /** Maximum number of orders (default: no limit) */
   limit?: number;
   offset?: number;
 }
 
+// ============================================
+// Fill Types
+// ============================================
+
+/**
+ * One execution against an order
+ */
+export interface Fill {
+  id: string;
+  orderId: string;
+  userId: string;
+  /** Exchange trade id, unique per order */
+  tradeId: string;
+  conditionId: string;
+  tokenId: string;
+  side: OrderSide;
+  price: number;
+  size: number;
+  /** Fee paid in USDC */
+  fee: number;
+  /** When the trade executed */
+  filledAt: Date;
+  createdAt: Date;
+}
+
+export interface CreateFillInput {
+  orderId: string;
+  tradeId: string;
+  price: number;
+  size: number;
+  fee?: number;
+  filledAt?: Date;
+}
+
+export interface CreateFillResult {
+  fill: Fill;
+  /** The order with filledSize and status updated */
+  order: Order;
+  /** False when the trade was already recorded for this order */
+  created: boolean;
+}
+
+export interface FillFilters {
+  orderId?: string;
+  tokenId?: string;
+  /** Only fills executed at or after this time */
+  filledAfter?: Date;
+}
+
+/** Shares are tracked to 6 decimals on chain */
+const FILL_SIZE_TOLERANCE = 1e-6;
+
+/**
+ * Status an order moves to once its fills add up to filledSize
+ *
+ * Orders that are already final keep their status, since a trade can still
+ * settle after a cancel or expiry was recorded.
+ */
+export function orderStatusAfterFill(order: Pick<Order, 'status' | 'size'>, filledSize: number): OrderStatus {
+  if (filledSize > order.size + FILL_SIZE_TOLERANCE) {
+    throw new QuantishError(
+      `Fills total ${filledSize}, more than the order size ${order.size}`,
+      'FILL_EXCEEDS_ORDER',
+      409,
+      { filledSize, size: order.size }
+    );
+  }
+  if (ORDER_STATUS_TRANSITIONS[order.status].length === 0) {
+    return order.status;
+  }
+  return filledSize >= order.size - FILL_SIZE_TOLERANCE ? 'FILLED' : 'PARTIALLY_FILLED';
+}
+
 // ============================================
 // Position Types
 // ============================================
@@ -247,6 +472,9 @@ export type TransactionType =
   | 'TRANSFER_USDC'
   | 'TRANSFER_SHARES'
   | 'SWAP_TOKENS'
+  | 'SPLIT_POSITION'
+  | 'MERGE_POSITIONS'
+  | 'CONVERT_POSITIONS'
   | 'REDEEM_POSITION';
 
 export type TransactionStatus = 'PENDING' | 'SUBMITTED' | 'EXECUTED' | 'FAILED';
@@ -270,6 +498,21 @@ export interface CreateTransactionInput {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Fields that may be changed once a transaction's outcome is known
+ */
+export interface UpdateTransactionInput {
+  status?: TransactionStatus;
+  metadata?: Record<string, unknown>;
+}
+
+export interface TransactionFilters {
+  /** A single type, or any of several */
+  type?: TransactionType | TransactionType[];
+  /** A single status, or any of several */
+  status?: TransactionStatus | TransactionStatus[];
+}
+
 // ============================================
 // Activity Log Types
 // ============================================
@@ -324,6 +567,10 @@ export interface Market {
   endDate: string;
   volume: string;
   liquidity: string;
+  /** Open for trading; treated as open when absent */
+  active?: boolean;
+  /** Part of a neg-risk event; treated as standard when absent */
+  negRisk?: boolean;
 }
 
 export interface MarketToken {
@@ -345,6 +592,35 @@ export interface OrderBookEntry {
   size: string;
 }
 
+// ============================================
+// Risk Types
+// ============================================
+
+export interface RiskLimits {
+  /** Max price * size of a single order, in USDC */
+  maxOrderNotional?: number | null;
+  /** Max shares held per token, counting open BUY orders */
+  maxPositionSize?: number | null;
+  /** Max USDC traded per UTC day, counting open and filled orders */
+  maxDailyVolume?: number | null;
+  /** Max distance of the order price from the book midpoint, e.g. 0.1 */
+  priceBand?: number | null;
+  /** Condition ids or token ids that may not be traded */
+  blockedMarkets?: string[];
+}
+
+export interface RiskConfig {
+  /** Limits applied to every user; unset or null means unlimited */
+  limits?: RiskLimits;
+  /**
+   * Per-user overrides keyed by user id or externalId. Set values replace the
+   * global ones (null lifts a limit); blocked markets are added to the global list.
+   */
+  users?: Record<string, RiskLimits>;
+}
+
+export type RiskLimitName = keyof RiskLimits;
+
 // ============================================
 // HMAC Signing Types
 // ============================================
@@ -402,3 +678,23 @@ export class InsufficientBalanceError extends QuantishError {
   }
 }
 
+export class InvalidOrderTransitionError extends QuantishError {
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`Order cannot move from ${from} to ${to}`, 'INVALID_ORDER_TRANSITION', 409, { from, to });
+    this.name = 'InvalidOrderTransitionError';
+  }
+}
+
+export class RiskLimitError extends QuantishError {
+  constructor(public limit: RiskLimitName, message: string, details?: Record<string, unknown>) {
+    super(message, 'RISK_LIMIT_EXCEEDED', 403, { limit, ...details });
+    this.name = 'RiskLimitError';
+  }
+}
+
+export class NotFoundError extends QuantishError {
+  constructor(message: string = 'Not found') {
+    super(message, 'NOT_FOUND', 404);
+    this.name = 'NotFoundError';
+  }
+}